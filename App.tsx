@@ -1,15 +1,81 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { generateSpeech } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { synthesizeStory } from './services/storySynthesis';
 import { 
-  decodeAudioData, 
-  decodeBase64, 
-  audioBufferToWav, 
   getSupportedFormats, 
-  transcodeToBlob,
-  AudioFormat 
+  audioBufferToPcm16,
+  AudioFormat,
+  WavBitDepth
 } from './utils/audioUtils';
-import { VoiceName } from './types';
+import { ExportOptions, downloadBlob, exportAudioBuffer } from './utils/audioExport';
+import { MP3_BITRATES } from './utils/encoders/mp3';
+import { DEFAULT_MASTERING_OPTIONS, LoudnessReport, MasteringOptions, limitTruePeak } from './utils/mastering';
+import { DEFAULT_MUSIC_BED_OPTIONS, MusicBedOptions, loadMusicFile, renderMusicBedMix } from './utils/musicBed';
+import { useTransport } from './hooks/useTransport';
+import { getStoryKey, loadCasting, saveCasting } from './services/castingStore';
+import { getDefaultProvider, getProvider, listProviders } from './services/providerRegistry';
+import { HistoryEntry, deriveTitle, loadHistoryAudio, saveGeneration } from './services/historyStore';
+import { exportLexicon, importLexicon, loadLexicon, mergeLexicon, readLexiconEntries, saveLexicon } from './services/lexiconStore';
+import {
+  PROJECT_EXTENSION,
+  ProjectSettings,
+  StoryProject,
+  createProject,
+  createProjectFile,
+  deleteProject,
+  listRecentProjects,
+  loadProjectAudio,
+  readProjectFile,
+  saveProjectSnapshot,
+} from './services/projectStore';
+import { describeError, formatErrorMessage } from './services/ttsErrors';
+import {
+  UsageLimits,
+  UsageOutcome,
+  UsageRecord,
+  appendUsageRecord,
+  checkUsageLimits,
+  createUsageRecord,
+  describeBreach,
+  estimateUsage,
+  formatUsageValue,
+  loadUsageLimits,
+  loadUsageRecords,
+  saveUsageLimits,
+} from './services/usageMeter';
+import { AuditionOptions, auditionVoice, compareVoices, synthesizeSample, loadFavoriteVoices, pickAuditionText, saveFavoriteVoices } from './services/voiceAudition';
+import { autoCast, detectSpeakers, parseDialogue } from './utils/dialogueParser';
+import { splitParagraphs } from './utils/textChunker';
+import { maskMarkup, MarkupError, parseMarkup } from './utils/markup';
+import { applyLexiconToRequest, LexiconEntry } from './utils/lexicon';
+import { ImportedDocument, importDocument } from './utils/documentImport';
+import { Chapter, composeChapters } from './utils/importers/chapters';
+import { TextEncoding } from './utils/importers/textEncoding';
+import { AudiobookFormat, exportAudiobook, locateChapters, renderCover, safeFileName } from './utils/audiobook';
+import { DEFAULT_M4B_BITRATE, isM4bSupported } from './utils/encoders/m4b';
+import { buildCaptionCues, CAPTION_FORMATS, CaptionFormat, exportCaptions } from './utils/captions';
+import { DEFAULT_VOICE } from './utils/voiceCatalog';
+import { VISUALIZER_MODES, VisualizerMode } from './utils/visualizer';
+import { DEFAULT_VIDEO_SETTINGS, VideoSettings, exportVideo, getSupportedVideoFormats } from './utils/videoExport';
+import { VoiceName, SynthesisProgress, StoryMode, VoiceCasting, TimedSegment, StyleConfig } from './types';
 import Visualizer from './components/Visualizer';
+import VoicePicker from './components/VoicePicker';
+import CastingPanel from './components/CastingPanel';
+import CacheControl from './components/CacheControl';
+import MasteringPanel from './components/MasteringPanel';
+import MusicBedPanel from './components/MusicBedPanel';
+import StylePanel from './components/StylePanel';
+import MarkupErrors from './components/MarkupErrors';
+import LexiconPanel from './components/LexiconPanel';
+import ChapterPanel from './components/ChapterPanel';
+import AudiobookPanel from './components/AudiobookPanel';
+import VideoExportPanel from './components/VideoExportPanel';
+import ProjectBar from './components/ProjectBar';
+import CaptionPreview from './components/CaptionPreview';
+import HistoryPanel from './components/HistoryPanel';
+import BatchPanel from './components/BatchPanel';
+import UsagePanel from './components/UsagePanel';
+import TransportControls from './components/TransportControls';
+import ReadingView from './components/ReadingView';
 
 // Default story provided by user
 const DEFAULT_TEXT = `एक छोटे से गाँव में रीता नाम की एक मेहनती और ईमानदार औरत रहती थी। रीता रोज़-रोज़ मेहनत करती — उसके हाथ में सब्ज़ियां, मसाले, आटा आदि मिलते ही वह अपने घर के पास एक छोटी सी दूकान खोल लेती: वहाँ वो छोले, समोसे और गरम-गरम चाय बेचती थी।
@@ -30,24 +96,100 @@ const DEFAULT_TEXT = `एक छोटे से गाँव में री
 
 मोरल / सन्देश: मेहनत और ईमानदारी से किया गया काम चाहे छोटा हो — लेकिन सच्चाई और दृढ़ता से किया जाए, तो वह हमेशा सम्मान और भरोसा कमाता है। बनावट या मिलावट से होती हुई कमाई थोडे समय के लिए असर दिखा सकती है — लेकिन अंत में ईमानदारी और असली मेहनत सबसे मजबूत होती है।`;
 
+// Quiet time after the last edit before the project is autosaved
+const AUTOSAVE_DELAY_MS = 2000;
+
 const App: React.FC = () => {
   const [text, setText] = useState<string>(DEFAULT_TEXT);
-  const [voice, setVoice] = useState<VoiceName>(VoiceName.Kore);
+  const [voice, setVoice] = useState<VoiceName>(DEFAULT_VOICE);
+  const [providerId, setProviderId] = useState<string>(() => getDefaultProvider().id);
+  const [model, setModel] = useState<string>(() => getDefaultProvider().defaultModel);
+  const [mode, setMode] = useState<StoryMode>('narration');
+  const [casting, setCasting] = useState<VoiceCasting>({});
+  const [style, setStyle] = useState<StyleConfig>({ direction: '' });
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>(loadLexicon);
+  const [testingLexiconId, setTestingLexiconId] = useState<string | null>(null);
+  const [favoriteVoices, setFavoriteVoices] = useState<VoiceName[]>(loadFavoriteVoices);
+  const [auditioningVoice, setAuditioningVoice] = useState<VoiceName | null>(null);
+  const [comparingVoice, setComparingVoice] = useState<VoiceName | null>(null);
+  const [auditionNotice, setAuditionNotice] = useState<string | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(loadUsageRecords);
+  const [usageLimits, setUsageLimits] = useState<UsageLimits>(loadUsageLimits);
+  // Imported document: its chapters make up the story text
+  const [importedDocument, setImportedDocument] = useState<ImportedDocument | null>(null);
+  const [importedFile, setImportedFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<SynthesisProgress | null>(null);
+  // Set while a failed chunk waits to be retried
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [generationCount, setGenerationCount] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [paragraphStarts, setParagraphStarts] = useState<number[]>([]);
+  // Read-along: the text that was synthesized and its timing map
+  const [readAlong, setReadAlong] = useState<{ text: string; timing: TimedSegment[] } | null>(null);
+  const [isReadingView, setIsReadingView] = useState<boolean>(false);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('bars');
+  // Mastering applies to playback, history and every export
+  const [isMasteringEnabled, setIsMasteringEnabled] = useState<boolean>(true);
+  const [masteringOptions, setMasteringOptions] = useState<MasteringOptions>(DEFAULT_MASTERING_OPTIONS);
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
+  // Music bed: mixed under the narration for playback and export
+  const [musicBed, setMusicBed] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [musicBedOptions, setMusicBedOptions] = useState<MusicBedOptions>(DEFAULT_MUSIC_BED_OPTIONS);
+  const [isLoadingMusic, setIsLoadingMusic] = useState<boolean>(false);
+  const [mixBuffer, setMixBuffer] = useState<AudioBuffer | null>(null);
   
   // Download State
   const [formats, setFormats] = useState<AudioFormat[]>([]);
   const [selectedFormat, setSelectedFormat] = useState<string>('audio/wav');
   const [isProcessingDownload, setIsProcessingDownload] = useState<boolean>(false);
+  const [encodeProgress, setEncodeProgress] = useState<number | null>(null);
+  const [mp3Bitrate, setMp3Bitrate] = useState<number>(128);
+  const [flacLevel, setFlacLevel] = useState<number>(5);
+  const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(16);
+  // 0 keeps the generated sample rate
+  const [exportSampleRate, setExportSampleRate] = useState<number>(0);
+
+  // Captions: downloaded next to the audio, and previewed during playback
+  const [captionFormat, setCaptionFormat] = useState<CaptionFormat | null>(null);
+  const [showCaptions, setShowCaptions] = useState<boolean>(false);
+
+  // Audiobook export: one chaptered M4B, or a ZIP of per-chapter files
+  const [audiobookFormat, setAudiobookFormat] = useState<AudiobookFormat>('m4b');
+  const [m4bBitrate, setM4bBitrate] = useState<number>(DEFAULT_M4B_BITRATE);
+  const [m4bSupported, setM4bSupported] = useState<boolean>(false);
+  const [audiobookCover, setAudiobookCover] = useState<{ name: string; data: Uint8Array; mimeType: string } | null>(null);
+  const [isExportingAudiobook, setIsExportingAudiobook] = useState<boolean>(false);
+  const [audiobookProgress, setAudiobookProgress] = useState<number | null>(null);
+  // Video export
+  const [videoFormats] = useState(getSupportedVideoFormats);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(() => ({ ...DEFAULT_VIDEO_SETTINGS, mimeType: videoFormats[0]?.mimeType ?? '' }));
+  const [videoBackground, setVideoBackground] = useState<File | null>(null);
+  const [isExportingVideo, setIsExportingVideo] = useState<boolean>(false);
+  // Project: autosaved to IndexedDB, saved to and opened from .story files
+  const [projectIdentity, setProjectIdentity] = useState<{ id: string; createdAt: number }>(() => ({ id: crypto.randomUUID(), createdAt: Date.now() }));
+  const [projectName, setProjectName] = useState<string>('');
+  const [recentProjects, setRecentProjects] = useState<StoryProject[]>([]);
+  const [projectSavedAt, setProjectSavedAt] = useState<number | null>(null);
+  const [includeProjectAudio, setIncludeProjectAudio] = useState<boolean>(true);
+  // Autosave waits until the last project has been restored, so it is not overwritten
+  const [isProjectRestored, setIsProjectRestored] = useState<boolean>(false);
+  const [videoProgress, setVideoProgress] = useState<number | null>(null);
   
   // Audio Context Refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const startTimeRef = useRef<number>(0);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const storyInputRef = useRef<HTMLTextAreaElement>(null);
+  const videoAbortRef = useRef<AbortController | null>(null);
+  const previewSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Audio last written with the project snapshot; undefined forces the next autosave to write it
+  const savedProjectAudioRef = useRef<AudioBuffer | null | undefined>(undefined);
+
+  const transport = useTransport(audioContextRef, analyserRef);
+  const { isPlaying } = transport;
   
   // Initialize AudioContext & Formats
   useEffect(() => {
@@ -57,6 +199,8 @@ const App: React.FC = () => {
     // Create Analyser
     analyserRef.current = audioContextRef.current.createAnalyser();
     analyserRef.current.fftSize = 256;
+    // Sources -> Analyser -> Destination
+    analyserRef.current.connect(audioContextRef.current.destination);
 
     // Load supported formats
     const supported = getSupportedFormats();
@@ -71,114 +215,719 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const handleGenerate = async () => {
-    if (!text.trim()) return;
+  const provider = getProvider(providerId);
 
-    // Stop any current playback
-    handleStop();
-    setAudioBuffer(null);
-    setIsLoading(true);
-    setError(null);
+  const handleProviderChange = (id: string) => {
+    const next = getProvider(id);
+    setProviderId(id);
+    setModel(next.defaultModel);
+    if (!next.listVoices().includes(voice)) {
+      setVoice(next.listVoices()[0]);
+    }
+  };
+
+  // Inline markup is validated while typing; the story cannot be generated until it is valid
+  const markup = useMemo(
+    () => parseMarkup(text, { voices: provider.listVoices(), allowVoiceSwitch: mode !== 'dialogue' }),
+    [text, provider, mode]
+  );
+  // The text as the chunkers see it, with tags blanked out
+  const plainText = useMemo(() => maskMarkup(text, markup.tags), [text, markup]);
+
+  // Expected cost of the next generation, checked against the usage limits
+  const usageEstimate = useMemo(
+    () => (text.trim() ? estimateUsage({ text, voice, mode, casting, style }, provider, model) : null),
+    [text, voice, mode, casting, style, provider, model]
+  );
+  const limitBreaches = useMemo(
+    () => (usageEstimate ? checkUsageLimits(usageRecords, usageLimits, usageEstimate) : []),
+    [usageEstimate, usageRecords, usageLimits]
+  );
+  const isUsageBlocked = limitBreaches.some(breach => breach.level === 'hard');
+
+  const handleUsageLimitsChange = (next: UsageLimits) => {
+    setUsageLimits(next);
+    saveUsageLimits(next);
+  };
+
+  const recordUsage = (record: UsageRecord) => setUsageRecords(appendUsageRecord(record));
+
+  const handleMarkupErrorSelect = (markupError: MarkupError) => {
+    const textarea = storyInputRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(markupError.start, markupError.end);
+  };
+
+  // Dialogue casting: detect speakers and remember their voices per story
+  const storyKey = useMemo(() => getStoryKey(text), [text]);
+  const speakers = useMemo(
+    () => (mode === 'dialogue' ? detectSpeakers(parseDialogue(plainText)) : []),
+    [mode, plainText]
+  );
+
+  useEffect(() => {
+    if (mode !== 'dialogue') return;
+    // Only re-cast when the set of speakers or the story changes
+    const next = autoCast(speakers, loadCasting(storyKey), voice);
+    setCasting(next);
+    saveCasting(storyKey, next);
+  }, [mode, storyKey, speakers.join('\n')]);
+
+  // Re-render the mix whenever the narration or the bed changes; playback continues on it
+  useEffect(() => {
+    if (!audioBuffer || !musicBed) {
+      if (mixBuffer && audioBuffer) transport.load(audioBuffer);
+      setMixBuffer(null);
+      return;
+    }
+
+    let cancelled = false;
+    // Debounced so dragging the level slider does not re-render on every step
+    const timer = setTimeout(async () => {
+      try {
+        const mix = await renderMusicBedMix(audioBuffer, musicBed.buffer, musicBedOptions);
+        if (cancelled) return;
+        if (isMasteringEnabled) limitTruePeak(mix, masteringOptions.truePeakDb);
+        setMixBuffer(mix);
+        transport.load(mix);
+      } catch (e) {
+        console.error("Failed to mix music bed:", e);
+        setError("Failed to mix the music bed.");
+      }
+    }, 300);
 
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [audioBuffer, musicBed, musicBedOptions, isMasteringEnabled, masteringOptions.truePeakDb]);
+
+  const handleMusicFile = async (file: File) => {
+    setIsLoadingMusic(true);
     try {
-      const base64Audio = await generateSpeech(text, voice);
-      
-      if (!audioContextRef.current) return;
-      
-      const rawBytes = decodeBase64(base64Audio);
-      const decodedBuffer = await decodeAudioData(rawBytes, audioContextRef.current);
-      
-      setAudioBuffer(decodedBuffer);
-      // Auto-play after generation
-      playBuffer(decodedBuffer);
-    } catch (err: any) {
-      setError(err.message || "Failed to generate speech");
+      setMusicBed({ name: file.name, buffer: await loadMusicFile(file) });
+    } catch (e) {
+      console.error("Failed to load music:", e);
+      setError("Could not decode that audio file.");
     } finally {
-      setIsLoading(false);
+      setIsLoadingMusic(false);
     }
   };
 
-  const playBuffer = useCallback((buffer: AudioBuffer) => {
-    if (!audioContextRef.current || !analyserRef.current) return;
+  // Units that per-paragraph style overrides refer to (same indices as the synthesis chunks)
+  const styleTargets = useMemo(
+    () => (mode === 'dialogue'
+      ? parseDialogue(plainText).map(line => `${line.speaker}: ${text.slice(line.start, line.end)}`)
+      : splitParagraphs(plainText).map(range => text.slice(range.start, range.end))),
+    [mode, text, plainText]
+  );
 
-    // If already playing, stop first
-    if (sourceNodeRef.current) {
-      try {
-        sourceNodeRef.current.stop();
-      } catch (e) { /* ignore if already stopped */ }
+  const handleCastingChange = (next: VoiceCasting) => {
+    setCasting(next);
+    saveCasting(storyKey, next);
+  };
+
+  const handleImport = async (file: File, encoding?: TextEncoding) => {
+    setIsImporting(true);
+    try {
+      const imported = await importDocument(file, { encoding });
+      setImportedDocument(imported);
+      setImportedFile(file);
+      setText(composeChapters(imported.chapters).text);
+      setIsReadingView(false);
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to import document:", e);
+      setError(e.message || "Could not import that document.");
+    } finally {
+      setIsImporting(false);
     }
+  };
+
+  const handleChaptersChange = (chapters: Chapter[]) => {
+    if (!importedDocument) return;
+    setImportedDocument({ ...importedDocument, chapters });
+    setText(composeChapters(chapters).text);
+  };
+
+  const handleChapterSelect = (chapter: Chapter) => {
+    const included = importedDocument?.chapters.filter(c => c.included) ?? [];
+    const start = composeChapters(included).starts[included.indexOf(chapter)];
+    const textarea = storyInputRef.current;
+    if (start === undefined || !textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, start + chapter.title.length);
+  };
+
+  const handleLexiconChange = (next: LexiconEntry[]) => {
+    setLexicon(next);
+    saveLexicon(next);
+  };
 
-    const source = audioContextRef.current.createBufferSource();
+  // Plays a short sample outside the transport, replacing any sample still playing
+  const playPreview = (buffer: AudioBuffer, onEnded?: () => void): AudioBufferSourceNode | null => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return null;
+    previewSourceRef.current?.stop();
+    if (ctx.state === 'suspended') ctx.resume();
+    const source = ctx.createBufferSource();
     source.buffer = buffer;
-    
-    // Connect Source -> Analyser -> Destination
-    source.connect(analyserRef.current);
-    analyserRef.current.connect(audioContextRef.current.destination);
-    
+    source.connect(analyserRef.current ?? ctx.destination);
     source.onended = () => {
-      setIsPlaying(false);
+      if (previewSourceRef.current === source) previewSourceRef.current = null;
+      onEnded?.();
     };
-
+    previewSourceRef.current = source;
     source.start();
-    startTimeRef.current = audioContextRef.current.currentTime;
-    sourceNodeRef.current = source;
-    setIsPlaying(true);
-  }, []);
+    return source;
+  };
 
-  const handlePlay = () => {
-    if (audioBuffer) {
-      // Resume context if suspended (browser policy)
-      if (audioContextRef.current?.state === 'suspended') {
-        audioContextRef.current.resume();
+  const handleToggleFavorite = (v: VoiceName) => {
+    const next = favoriteVoices.includes(v) ? favoriteVoices.filter(f => f !== v) : [...favoriteVoices, v];
+    setFavoriteVoices(next);
+    saveFavoriteVoices(next);
+  };
+
+  // Auditions and pronunciation tests are billed requests too: checked against the hard limits and metered
+  const auditionMeter = (title: string): AuditionOptions => ({
+    beforeRequest: (estimate) => {
+      const breach = checkUsageLimits(usageRecords, usageLimits, estimate).find(b => b.level === 'hard');
+      if (breach) throw new Error(describeBreach(breach));
+    },
+    onUsage: (progress, outcome) => {
+      recordUsage(createUsageRecord(progress, { source: 'audition', providerId: provider.id, model, title, outcome }));
+    },
+  });
+
+  const handleAudition = async (v: VoiceName) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    setAuditioningVoice(v);
+    setAuditionNotice(null);
+    try {
+      const { buffer, cached } = await auditionVoice(provider, model, v, pickAuditionText(plainText), ctx, auditionMeter(`Audition: ${v}`));
+      setAuditionNotice(cached ? `${v}: played from cache` : null);
+      playPreview(buffer);
+    } catch (e: any) {
+      console.error("Voice audition failed:", e);
+      setError(formatErrorMessage(e, "Failed to audition the voice."));
+    } finally {
+      setAuditioningVoice(null);
+    }
+  };
+
+  const handleCompare = async (a: VoiceName, b: VoiceName) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    setComparingVoice(a);
+    setAuditionNotice(null);
+    try {
+      const { buffer, secondStart } = await compareVoices(provider, model, [a, b], pickAuditionText(plainText), ctx, auditionMeter(`Compare: ${a} / ${b}`));
+      const switchTimer = window.setTimeout(() => setComparingVoice(b), secondStart * 1000);
+      playPreview(buffer, () => {
+        window.clearTimeout(switchTimer);
+        setComparingVoice(null);
+      });
+    } catch (e: any) {
+      console.error("Voice comparison failed:", e);
+      setError(formatErrorMessage(e, "Failed to compare the voices."));
+      setComparingVoice(null);
+    }
+  };
+
+  // Synthesizes just the entry's word, with its replacement applied, and plays it
+  const handleLexiconTest = async (entry: LexiconEntry) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    setTestingLexiconId(entry.id);
+    try {
+      const request = applyLexiconToRequest({ text: entry.word, voice: entry.voice ?? voice }, [entry], entry.project);
+      const { buffer } = await synthesizeSample(provider, model, request, ctx, auditionMeter(`Pronunciation: ${entry.word}`));
+      playPreview(buffer);
+    } catch (e: any) {
+      console.error("Pronunciation test failed:", e);
+      setError(formatErrorMessage(e, "Failed to synthesize the word."));
+    } finally {
+      setTestingLexiconId(null);
+    }
+  };
+
+  const handleLexiconImport = async (file: File) => {
+    try {
+      handleLexiconChange(importLexicon(await file.text(), lexicon));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  // Everything a project file carries, rebuilt as the editor changes
+  const projectSettings = useMemo<ProjectSettings>(() => ({
+    name: projectName.trim() || deriveTitle(text),
+    text,
+    document: importedDocument,
+    mode,
+    voice,
+    casting,
+    style,
+    providerId,
+    model,
+    lexicon: lexicon
+      .filter(entry => !entry.project || entry.project === storyKey)
+      .map(({ id, ...entry }) => entry),
+    mastering: { enabled: isMasteringEnabled, options: masteringOptions },
+    output: { mimeType: selectedFormat, mp3Bitrate, flacLevel, wavBitDepth, sampleRate: exportSampleRate, captionFormat },
+    ...(audioBuffer && {
+      audio: {
+        sampleRate: audioBuffer.sampleRate,
+        numChannels: audioBuffer.numberOfChannels,
+        duration: audioBuffer.duration,
+        paragraphStarts,
+        ...(readAlong && { readAlong }),
+      },
+    }),
+  }), [
+    projectName, text, importedDocument, mode, voice, casting, style, providerId, model, lexicon, storyKey,
+    isMasteringEnabled, masteringOptions, selectedFormat, mp3Bitrate, flacLevel, wavBitDepth, exportSampleRate, captionFormat,
+    audioBuffer, paragraphStarts, readAlong,
+  ]);
+
+  // Autosave; the audio is only re-encoded when it changed
+  useEffect(() => {
+    if (!isProjectRestored || isLoading) return;
+    const timer = setTimeout(async () => {
+      const audioChanged = savedProjectAudioRef.current !== audioBuffer;
+      const pcm = audioChanged ? (audioBuffer ? audioBufferToPcm16(audioBuffer) : null) : undefined;
+      try {
+        await saveProjectSnapshot(createProject(projectSettings, projectIdentity), pcm);
+        savedProjectAudioRef.current = audioBuffer;
+        setProjectSavedAt(Date.now());
+        setRecentProjects(await listRecentProjects());
+      } catch (e) {
+        console.warn("Failed to autosave project:", e);
       }
-      playBuffer(audioBuffer);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectSettings, projectIdentity, isProjectRestored, isLoading]);
+
+  /**
+   * Loads a project into the editor. Pronunciations are merged into the lexicon
+   * only for opened files; recent projects were saved from this lexicon already.
+   */
+  const applyProject = (project: StoryProject, audio: AudioBuffer | null, source: 'file' | 'recent') => {
+    handleStop();
+    // Stored first, so the dialogue casting effect picks it up for the new story
+    saveCasting(getStoryKey(project.text), project.casting);
+    setProjectIdentity({ id: project.id, createdAt: project.createdAt });
+    setProjectName(project.name);
+    setText(project.text);
+    setImportedDocument(project.document);
+    setImportedFile(null);
+    setMode(project.mode);
+    setVoice(project.voice);
+    setCasting(project.casting);
+    setStyle(project.style);
+    if (listProviders().some(p => p.id === project.providerId)) {
+      setProviderId(project.providerId);
+      setModel(project.model || getProvider(project.providerId).defaultModel);
     }
+    if (source === 'file' && project.lexicon.length > 0) {
+      handleLexiconChange(mergeLexicon(lexicon, readLexiconEntries(project.lexicon)));
+    }
+    setIsMasteringEnabled(project.mastering.enabled);
+    setMasteringOptions(project.mastering.options);
+    // Formats recorded by another browser may not be available here
+    if (getSupportedFormats().some(f => f.mimeType === project.output.mimeType)) {
+      setSelectedFormat(project.output.mimeType);
+    }
+    setMp3Bitrate(project.output.mp3Bitrate);
+    setFlacLevel(project.output.flacLevel);
+    setWavBitDepth(project.output.wavBitDepth);
+    setExportSampleRate(project.output.sampleRate);
+    setCaptionFormat(project.output.captionFormat);
+
+    setAudioBuffer(audio);
+    setParagraphStarts(audio ? project.audio?.paragraphStarts ?? [] : []);
+    setReadAlong(audio ? project.audio?.readAlong ?? null : null);
+    setLoudnessReport(null);
+    setIsReadingView(false);
+    setError(null);
+    if (audio) transport.load(audio);
+    savedProjectAudioRef.current = source === 'recent' ? audio : undefined;
   };
 
-  const handleStop = () => {
-    if (sourceNodeRef.current) {
+  // Reopen the project that was being worked on
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
       try {
-        sourceNodeRef.current.stop();
-      } catch (e) { /* ignore */ }
-      sourceNodeRef.current = null;
+        const projects = await listRecentProjects();
+        const ctx = audioContextRef.current;
+        if (cancelled) return;
+        setRecentProjects(projects);
+        if (projects.length > 0 && ctx) {
+          const audio = await loadProjectAudio(projects[0], ctx);
+          if (!cancelled) applyProject(projects[0], audio, 'recent');
+        }
+      } catch (e) {
+        console.warn("Failed to restore the last project:", e);
+      } finally {
+        if (!cancelled) setIsProjectRestored(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleNewProject = () => {
+    handleStop();
+    setProjectIdentity({ id: crypto.randomUUID(), createdAt: Date.now() });
+    setProjectName('');
+    setText('');
+    setImportedDocument(null);
+    setImportedFile(null);
+    setCasting({});
+    setStyle({ direction: '' });
+    setAudioBuffer(null);
+    setParagraphStarts([]);
+    setReadAlong(null);
+    setLoudnessReport(null);
+    setIsReadingView(false);
+    setProjectSavedAt(null);
+    savedProjectAudioRef.current = undefined;
+  };
+
+  const handleProjectSave = () => {
+    const project = createProject(projectSettings, projectIdentity);
+    const pcm = includeProjectAudio && audioBuffer ? audioBufferToPcm16(audioBuffer) : null;
+    downloadBlob(createProjectFile(project, pcm), `${safeFileName(project.name) || 'gemini-story'}.${PROJECT_EXTENSION}`);
+  };
+
+  const handleProjectOpen = async (file: File) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    try {
+      const { project, audio } = await readProjectFile(file, ctx);
+      applyProject(project, audio, 'file');
+    } catch (e: any) {
+      console.error("Failed to open project:", e);
+      setError(e.message || "Could not open that project.");
     }
-    setIsPlaying(false);
   };
 
-  const handleDownload = async () => {
-    if (!audioBuffer) return;
+  const handleRecentOpen = async (project: StoryProject) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    try {
+      applyProject(project, await loadProjectAudio(project, ctx), 'recent');
+    } catch (e: any) {
+      console.error("Failed to open project:", e);
+      setError(e.message || "Could not open that project.");
+    }
+  };
+
+  const handleRecentDelete = async (project: StoryProject) => {
+    try {
+      await deleteProject(project.id);
+      setRecentProjects(await listRecentProjects());
+    } catch (e) {
+      console.error("Failed to delete project:", e);
+    }
+  };
+
+  const handleGenerate = async () => {
+    const ctx = audioContextRef.current;
+    if (!text.trim() || !ctx || markup.errors.length > 0 || isUsageBlocked) return;
+
+    // Stop any current playback
+    handleStop();
+    setAudioBuffer(null);
+    setParagraphStarts([]);
+    setReadAlong(null);
+    setLoudnessReport(null);
+    setIsReadingView(false);
+    setIsLoading(true);
+    setProgress(null);
+    setRetryNotice(null);
+    setError(null);
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
-    const formatInfo = formats.find(f => f.mimeType === selectedFormat) || formats[0];
-    const filename = `gemini-story-${Date.now()}.${formatInfo.ext}`;
+    // Play segments as they arrive instead of waiting for the whole story
+    const scheduler = transport.beginStream();
+    let usage: SynthesisProgress | null = null;
+    let outcome: UsageOutcome = 'failed';
 
     try {
-      let blob: Blob;
+      // Long stories are split into chunks, synthesized in parallel and stitched together
+      const { buffer, paragraphStartTimes, timing, loudness } = await synthesizeStory({ text, voice, mode, casting, style }, ctx, {
+        provider,
+        model,
+        mastering: isMasteringEnabled ? masteringOptions : undefined,
+        lexicon,
+        project: storyKey,
+        signal: controller.signal,
+        onProgress: (next) => {
+          usage = next;
+          setProgress(next);
+          setRetryNotice(null);
+        },
+        onRetry: (error, attempt, delayMs) => {
+          setRetryNotice(`${describeError(error).title}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})`);
+        },
+        onSegment: ({ buffer: segment, startTime }) => scheduler.schedule(segment, startTime),
+      });
 
-      if (formatInfo.mimeType === 'audio/wav') {
-        // Fast path for WAV
-        blob = audioBufferToWav(audioBuffer);
+      outcome = 'completed';
+      setAudioBuffer(buffer);
+      setParagraphStarts(paragraphStartTimes);
+      setReadAlong({ text, timing });
+      setLoudnessReport(loudness ?? null);
+      transport.load(buffer);
+      scheduler.finish();
+
+      saveGeneration(buffer, { text, voice, mode, timing, style })
+        .then(() => setGenerationCount(count => count + 1))
+        .catch(e => console.warn("Failed to save generation to history:", e));
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error("Generation failed:", err);
+        transport.stop();
+        setError(formatErrorMessage(err, "Failed to generate speech"));
       } else {
+        // Cancelled: let what already arrived play out (a no-op after Stop)
+        outcome = 'cancelled';
+        scheduler.finish();
+      }
+    } finally {
+      if (usage) {
+        recordUsage(createUsageRecord(usage, { source: 'story', providerId: provider.id, model, title: deriveTitle(text), outcome }));
+      }
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+      }
+      setIsLoading(false);
+      setProgress(null);
+      setRetryNotice(null);
+      setGenerationCount(count => count + 1);
+    }
+  };
+
+  // Cancels generation but keeps playing what has already arrived
+  const handleCancel = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+  };
+
+  const handleStop = () => {
+    // Cancel pending generation and anything the streaming scheduler has queued
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    transport.stop();
+  };
+
+  const handlePreviousParagraph = () => {
+    // Within the first second of a paragraph, go to the one before it
+    const previous = paragraphStarts.filter(t => t < transport.position - 1);
+    transport.seek(previous.length > 0 ? previous[previous.length - 1] : 0);
+  };
+
+  const handleNextParagraph = () => {
+    const next = paragraphStarts.find(t => t > transport.position + 0.05);
+    if (next !== undefined) transport.seek(next);
+  };
+
+  const handleReadingSeek = (time: number) => {
+    transport.seek(time);
+    if (!isPlaying) transport.play();
+  };
+
+  const currentFormat = formats.find(f => f.mimeType === selectedFormat) || formats[0];
+
+  const exportOptions: ExportOptions = {
+    sampleRate: exportSampleRate || undefined,
+    wav: {
+      bitDepth: wavBitDepth,
+      metadata: {
+        title: deriveTitle(readAlong?.text ?? text),
+        artist: `Gemini Storyteller (${voice})`,
+        comment: `${provider.label} · ${model}`,
+      },
+      cuePoints: paragraphStarts.map((time, i) => ({ time, label: `Paragraph ${i + 1}` })),
+    },
+    mp3: { bitrate: mp3Bitrate },
+    flac: { compressionLevel: flacLevel },
+    onProgress: setEncodeProgress,
+  };
+
+  const captionCues = useMemo(() => {
+    if (!readAlong) return [];
+    // The timing map was built on the text with markup tags blanked out
+    return buildCaptionCues(maskMarkup(readAlong.text, parseMarkup(readAlong.text).tags), readAlong.timing);
+  }, [readAlong]);
+
+  const handleDownload = async () => {
+    if (!audioBuffer) return;
+
+    const formatInfo = currentFormat;
+    const basename = `gemini-story-${Date.now()}`;
+    const filename = `${basename}.${formatInfo.ext}`;
+
+    try {
+      if (formatInfo.mimeType !== 'audio/wav') {
         // Slow path for compressed formats
         setIsProcessingDownload(true);
+        setEncodeProgress(formatInfo.encoder ? 0 : null);
         // Small delay to allow UI to update
         await new Promise(r => setTimeout(r, 50));
-        blob = await transcodeToBlob(audioBuffer, formatInfo.mimeType);
       }
-
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      // Export what is heard: the narration with its music bed, when there is one
+      const blob = await exportAudioBuffer(mixBuffer ?? audioBuffer, formatInfo, exportOptions);
+      downloadBlob(blob, filename);
+      if (captionFormat && captionCues.length > 0) {
+        const captions = exportCaptions(captionCues, captionFormat, {
+          title: deriveTitle(readAlong?.text ?? text),
+          artist: `Gemini Storyteller (${voice})`,
+        });
+        downloadBlob(captions, `${basename}.${captionFormat}`);
+      }
     } catch (e) {
       console.error("Download failed:", e);
       setError("Failed to process download. Please try WAV format.");
     } finally {
       setIsProcessingDownload(false);
+      setEncodeProgress(null);
+    }
+  };
+
+  const audiobookChapters = useMemo(() => {
+    const buffer = mixBuffer ?? audioBuffer;
+    if (!buffer || !readAlong) return [];
+    // Chapters of an imported document, as long as the story is still that document's text
+    const included = importedDocument?.chapters.filter(c => c.included) ?? [];
+    const titles = included.length > 0 && composeChapters(included).text === readAlong.text ? included.map(c => c.title) : null;
+    return locateChapters(readAlong.text, readAlong.timing, buffer.duration, titles, importedDocument?.title ?? deriveTitle(readAlong.text));
+  }, [mixBuffer, audioBuffer, readAlong, importedDocument]);
+
+  useEffect(() => {
+    if (!audioBuffer) return;
+    let cancelled = false;
+    isM4bSupported(audioBuffer, m4bBitrate).then(supported => {
+      if (cancelled) return;
+      setM4bSupported(supported);
+      if (!supported) setAudiobookFormat('zip');
+    });
+    return () => { cancelled = true; };
+  }, [audioBuffer, m4bBitrate]);
+
+  const handleAudiobookCover = async (file: File | null) => {
+    if (!file) {
+      setAudiobookCover(null);
+      return;
+    }
+    setAudiobookCover({ name: file.name, data: new Uint8Array(await file.arrayBuffer()), mimeType: file.type });
+  };
+
+  const handleAudiobookExport = async () => {
+    const buffer = mixBuffer ?? audioBuffer;
+    if (!buffer || audiobookChapters.length === 0) return;
+
+    const title = importedDocument?.title ?? deriveTitle(readAlong?.text ?? text);
+    const artist = `Gemini Storyteller (${voice})`;
+    setIsExportingAudiobook(true);
+    setAudiobookProgress(0);
+    try {
+      const cover = audiobookCover ?? await renderCover(title, artist);
+      const blob = await exportAudiobook(buffer, audiobookChapters, {
+        format: audiobookFormat,
+        title,
+        artist,
+        comment: `${provider.label} · ${model}`,
+        cover,
+        bitrate: m4bBitrate,
+        audioFormat: currentFormat,
+        exportOptions,
+      }, setAudiobookProgress);
+      downloadBlob(blob, `${safeFileName(title, 40) || 'gemini-story'}.${audiobookFormat}`);
+    } catch (e) {
+      console.error("Audiobook export failed:", e);
+      setError("Failed to export the audiobook. Please try the ZIP format with WAV files.");
+    } finally {
+      setIsExportingAudiobook(false);
+      setAudiobookProgress(null);
+    }
+  };
+
+  const handleVideoExport = async () => {
+    const ctx = audioContextRef.current;
+    const buffer = mixBuffer ?? audioBuffer;
+    const format = videoFormats.find(f => f.mimeType === videoSettings.mimeType) ?? videoFormats[0];
+    if (!ctx || !buffer || !format) return;
+
+    const title = importedDocument?.title ?? deriveTitle(readAlong?.text ?? text);
+    const controller = new AbortController();
+    videoAbortRef.current = controller;
+    setIsExportingVideo(true);
+    setVideoProgress(0);
+    let background: ImageBitmap | null = null;
+    try {
+      background = videoBackground ? await createImageBitmap(videoBackground) : null;
+      const blob = await exportVideo(ctx, buffer, {
+        format,
+        aspect: videoSettings.aspect,
+        resolution: videoSettings.resolution,
+        visualizer: videoSettings.visualizer,
+        title,
+        subtitle: `Gemini Storyteller (${voice})`,
+        background,
+        captions: videoSettings.captions ? captionCues : [],
+        signal: controller.signal,
+      }, setVideoProgress);
+      downloadBlob(blob, `${safeFileName(title, 40) || 'gemini-story'}.${format.ext}`);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Video export failed:", e);
+        setError("Failed to export the video. Try the WebM format or a lower resolution.");
+      }
+    } finally {
+      background?.close();
+      videoAbortRef.current = null;
+      setIsExportingVideo(false);
+      setVideoProgress(null);
+    }
+  };
+
+  const handleHistoryPlay = async (entry: HistoryEntry) => {
+    if (!audioContextRef.current) return;
+    handleStop();
+    try {
+      const buffer = await loadHistoryAudio(entry, audioContextRef.current);
+      setAudioBuffer(buffer);
+      setReadAlong(entry.timing ? { text: entry.text, timing: entry.timing } : null);
+      setParagraphStarts([]);
+      setLoudnessReport(null);
+      transport.playBuffer(buffer);
+    } catch (e: any) {
+      setError(e.message || "Failed to load story from history");
+    }
+  };
+
+  const handleHistoryDownload = async (entry: HistoryEntry, format: AudioFormat) => {
+    if (!audioContextRef.current) return;
+    try {
+      const buffer = await loadHistoryAudio(entry, audioContextRef.current);
+      const blob = await exportAudioBuffer(buffer, format, {
+        ...exportOptions,
+        wav: { bitDepth: wavBitDepth, metadata: { title: entry.title, artist: `Gemini Storyteller (${entry.voice})` } },
+        onProgress: undefined,
+      });
+      const safeTitle = entry.title.replace(/[\\/:*?"<>|]+/g, '').trim().slice(0, 40) || 'gemini-story';
+      downloadBlob(blob, `${safeTitle}.${format.ext}`);
+    } catch (e) {
+      console.error("Download failed:", e);
+      setError("Failed to process download. Please try WAV format.");
     }
   };
 
@@ -197,46 +946,167 @@ const App: React.FC = () => {
         
         {/* Left Panel: Input */}
         <div className="flex-1 p-6 md:p-8 border-b md:border-b-0 md:border-r border-slate-800 flex flex-col gap-6">
+
+          <ProjectBar
+            name={projectName}
+            projectId={projectIdentity.id}
+            recent={recentProjects}
+            savedAt={projectSavedAt}
+            includeAudio={includeProjectAudio}
+            hasAudio={!!audioBuffer}
+            disabled={isLoading}
+            onNameChange={setProjectName}
+            onIncludeAudioChange={setIncludeProjectAudio}
+            onNew={handleNewProject}
+            onOpen={handleProjectOpen}
+            onSave={handleProjectSave}
+            onOpenRecent={handleRecentOpen}
+            onDeleteRecent={handleRecentDelete}
+          />
           
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex flex-col gap-1">
+              <label htmlFor="provider-select" className="text-xs text-slate-500 uppercase tracking-widest font-semibold">Provider</label>
+              <select
+                id="provider-select"
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                disabled={isLoading}
+                className="bg-slate-800 text-slate-300 text-sm rounded-lg px-3 h-10 outline-none border border-slate-700 focus:border-blue-500"
+              >
+                {listProviders().map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}{p.isConfigured() ? '' : ' (not configured)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <label htmlFor="model-select" className="text-xs text-slate-500 uppercase tracking-widest font-semibold">Model</label>
+              <select
+                id="model-select"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                disabled={isLoading}
+                className="bg-slate-800 text-slate-300 text-sm rounded-lg px-3 h-10 outline-none border border-slate-700 focus:border-blue-500"
+              >
+                {provider.models.map(m => (
+                  <option key={m} value={m}>{m}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
           <div className="flex flex-col gap-2">
             <label htmlFor="voice-select" className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
               Select Voice
             </label>
-            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-              {Object.values(VoiceName).map((v) => (
-                <button
-                  key={v}
-                  onClick={() => setVoice(v)}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 border ${
-                    voice === v
-                      ? 'bg-blue-600/20 border-blue-500 text-blue-400'
-                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750 hover:border-slate-600'
-                  }`}
-                >
-                  {v}
-                </button>
-              ))}
-            </div>
+            <VoicePicker
+              voices={provider.listVoices()}
+              selected={voice}
+              favorites={favoriteVoices}
+              auditioning={auditioningVoice}
+              comparing={comparingVoice}
+              disabled={isLoading}
+              onSelect={setVoice}
+              onToggleFavorite={handleToggleFavorite}
+              onAudition={handleAudition}
+              onCompare={handleCompare}
+            />
+            {auditionNotice && <p className="text-xs text-slate-500">{auditionNotice}</p>}
           </div>
 
           <div className="flex-1 flex flex-col gap-2 min-h-[300px]">
-            <label htmlFor="story-input" className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
-              Story Text
-            </label>
-            <textarea
-              id="story-input"
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              className="flex-1 w-full bg-slate-950 border border-slate-800 rounded-xl p-4 text-base leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all resize-none font-sans text-slate-300"
-              placeholder="Enter your story here..."
+            <div className="flex items-center justify-between">
+              <label htmlFor="story-input" className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+                Story Text
+              </label>
+              <div className="flex items-center gap-2">
+                {readAlong && (
+                  <button
+                    onClick={() => setIsReadingView(v => !v)}
+                    className={`px-3 py-1 rounded-lg border text-xs font-medium transition-colors ${
+                      isReadingView
+                        ? 'bg-violet-600/20 border-violet-500 text-violet-300'
+                        : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                    }`}
+                    title="Follow the text while it is read aloud"
+                  >
+                    {isReadingView ? 'Edit Text' : 'Read Along'}
+                  </button>
+                )}
+                <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs font-medium">
+                  {(['narration', 'dialogue'] as StoryMode[]).map((m) => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={`px-3 py-1 capitalize transition-colors ${
+                        mode === m ? 'bg-blue-600/20 text-blue-400' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                      }`}
+                    >
+                      {m}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {isReadingView && readAlong ? (
+              <ReadingView
+                text={readAlong.text}
+                timing={readAlong.timing}
+                position={transport.position}
+                onSeek={handleReadingSeek}
+              />
+            ) : (
+              <textarea
+                id="story-input"
+                ref={storyInputRef}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="flex-1 w-full bg-slate-950 border border-slate-800 rounded-xl p-4 text-base leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all resize-none font-sans text-slate-300"
+                placeholder="Enter your story here... Markup: [pause 1.5s], [em]word[/em], [spell]NASA[/spell], [sub:Doctor]Dr.[/sub], [voice:Puck]...[/voice]"
+              />
+            )}
+            <MarkupErrors text={text} errors={markup.errors} onSelect={handleMarkupErrorSelect} />
+            <ChapterPanel
+              document={importedDocument}
+              isImporting={isImporting}
+              onImport={(file) => handleImport(file)}
+              onEncodingChange={(encoding) => importedFile && handleImport(importedFile, encoding)}
+              onChange={handleChaptersChange}
+              onSelect={handleChapterSelect}
+              onClose={() => setImportedDocument(null)}
             />
           </div>
 
+          {mode === 'dialogue' && (
+            <div className="flex flex-col gap-2">
+              <span className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Casting</span>
+              <CastingPanel speakers={speakers} voices={provider.listVoices()} casting={casting} onChange={handleCastingChange} />
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Delivery style</span>
+            <StylePanel style={style} paragraphs={styleTargets} onChange={setStyle} />
+          </div>
+
+          <LexiconPanel
+            entries={lexicon}
+            voices={provider.listVoices()}
+            storyKey={storyKey}
+            testingId={testingLexiconId}
+            onChange={handleLexiconChange}
+            onTest={handleLexiconTest}
+            onImport={handleLexiconImport}
+            onExport={() => downloadBlob(exportLexicon(lexicon), 'pronunciation-lexicon.json')}
+          />
+
           <div className="flex items-center gap-4">
              <button
               onClick={handleGenerate}
-              disabled={isLoading || !text}
-              className={`flex-1 py-3 px-6 rounded-xl font-bold text-lg shadow-lg transition-all duration-300 flex items-center justify-center gap-2 ${
+              disabled={isLoading || !text || markup.errors.length > 0 || isUsageBlocked}
+              className={`relative overflow-hidden flex-1 py-3 px-6 rounded-xl font-bold text-lg shadow-lg transition-all duration-300 flex items-center justify-center gap-2 ${
                 isLoading
                   ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
                   : 'bg-gradient-to-r from-blue-600 to-violet-600 hover:from-blue-500 hover:to-violet-500 text-white hover:shadow-blue-500/20 transform hover:-translate-y-0.5'
@@ -244,11 +1114,16 @@ const App: React.FC = () => {
             >
               {isLoading ? (
                 <>
-                  <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Generating...
+                  {/* Progress fill behind the label */}
+                  <div
+                    className="absolute inset-y-0 left-0 bg-blue-600/30 transition-all duration-500"
+                    style={{ width: `${progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                  />
+                  <span className="relative">
+                    {retryNotice ?? (progress && progress.total > 1
+                      ? `Generating ${progress.completed}/${progress.total}${progress.cached > 0 ? ` (${progress.cached} cached)` : ''}...`
+                      : 'Generating...')}
+                  </span>
                 </>
               ) : (
                 <>
@@ -259,8 +1134,49 @@ const App: React.FC = () => {
                 </>
               )}
             </button>
+            {isLoading && (
+              <button
+                onClick={handleCancel}
+                className="py-3 px-5 rounded-xl font-bold bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30 transition-all"
+                title="Stop generating (audio already received keeps playing)"
+              >
+                Cancel
+              </button>
+            )}
           </div>
+          {usageEstimate && !isLoading && (
+            <div className="flex flex-col gap-1 text-xs">
+              <p className="text-slate-500">
+                Estimate: {usageEstimate.requests} {usageEstimate.requests === 1 ? 'request' : 'requests'}
+                {' · '}{formatUsageValue('inputChars', usageEstimate.inputChars)} characters
+                {' · '}~{formatUsageValue('outputSeconds', usageEstimate.outputSeconds)} audio
+                {usageEstimate.cost > 0 && ` · ~${formatUsageValue('cost', usageEstimate.cost)}`}
+                {' '}(before cache hits)
+              </p>
+              {limitBreaches.map(breach => (
+                <p key={`${breach.period}-${breach.metric}`} className={breach.level === 'hard' ? 'text-red-400' : 'text-amber-400'}>
+                  {describeBreach(breach)}{breach.level === 'hard' && ' Raise the limit under Usage to generate.'}
+                </p>
+              ))}
+            </div>
+          )}
+          <MusicBedPanel
+            bed={musicBed && { name: musicBed.name, duration: musicBed.buffer.duration }}
+            options={musicBedOptions}
+            isLoading={isLoadingMusic}
+            onLoad={handleMusicFile}
+            onRemove={() => setMusicBed(null)}
+            onChange={setMusicBedOptions}
+          />
+          <MasteringPanel
+            enabled={isMasteringEnabled}
+            options={masteringOptions}
+            report={loudnessReport}
+            onToggle={setIsMasteringEnabled}
+            onChange={setMasteringOptions}
+          />
           {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+          <CacheControl refreshKey={generationCount} />
         </div>
 
         {/* Right Panel: Visualization & Controls */}
@@ -276,41 +1192,61 @@ const App: React.FC = () => {
                 </svg>
               </div>
               <div className="text-center">
-                <h3 className="text-lg font-bold text-white">{voice}</h3>
-                <p className="text-xs text-slate-500 uppercase tracking-widest">Active Voice</p>
+                <h3 className="text-lg font-bold text-white">
+                  {mode === 'dialogue' ? `${speakers.length} Speakers` : voice}
+                </h3>
+                <p className="text-xs text-slate-500 uppercase tracking-widest">
+                  {mode === 'dialogue' ? 'Dialogue Cast' : 'Active Voice'}
+                </p>
               </div>
            </div>
 
-           <div className="w-full">
-              <Visualizer analyser={analyserRef.current} isPlaying={isPlaying} />
+           <div className="w-full flex flex-col gap-2">
+              <div className="flex justify-center gap-1">
+                {VISUALIZER_MODES.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => setVisualizerMode(m.id)}
+                    className={`px-2 py-0.5 rounded-md text-xs font-medium transition-colors ${
+                      visualizerMode === m.id ? 'bg-blue-600/20 text-blue-400' : 'text-slate-500 hover:text-slate-300'
+                    }`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+              <Visualizer
+                analyser={analyserRef.current}
+                isPlaying={isPlaying}
+                mode={visualizerMode}
+                buffer={mixBuffer ?? audioBuffer}
+                position={transport.position}
+                onSeek={transport.seek}
+              />
            </div>
 
-           <div className="flex gap-4 w-full">
-             <button 
-                onClick={handlePlay} 
-                disabled={!audioBuffer || isPlaying}
-                className={`flex-1 py-3 rounded-xl font-bold transition-all ${
-                  !audioBuffer 
-                    ? 'bg-slate-800 text-slate-600 cursor-not-allowed' 
-                    : isPlaying 
-                      ? 'bg-slate-800 text-slate-400 cursor-default' 
-                      : 'bg-blue-600 text-white hover:bg-blue-500 shadow-lg shadow-blue-900/20'
-                }`}
-             >
-                Play
-             </button>
-             <button 
-                onClick={handleStop}
-                disabled={!isPlaying}
-                className={`px-6 py-3 rounded-xl font-bold transition-all ${
-                   isPlaying 
-                    ? 'bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30' 
-                    : 'bg-slate-800 text-slate-600 cursor-not-allowed'
-                }`}
-             >
-                Stop
-             </button>
-           </div>
+           {showCaptions && captionCues.length > 0 && (
+             <CaptionPreview cues={captionCues} position={transport.position} />
+           )}
+
+           <TransportControls
+             transport={transport}
+             hasAudio={!!audioBuffer || transport.isStreaming}
+             onPreviousParagraph={handlePreviousParagraph}
+             onNextParagraph={handleNextParagraph}
+           />
+
+           <button 
+              onClick={handleStop}
+              disabled={!isPlaying && !isLoading && transport.position === 0}
+              className={`w-full py-2 rounded-xl font-bold transition-all ${
+                 isPlaying || isLoading || transport.position > 0
+                  ? 'bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30' 
+                  : 'bg-slate-800 text-slate-600 cursor-not-allowed'
+              }`}
+           >
+              Stop
+           </button>
            
            <div className="w-full flex flex-col gap-2">
              <label className="text-xs text-slate-500 uppercase tracking-widest font-semibold">Download Format</label>
@@ -349,16 +1285,148 @@ const App: React.FC = () => {
                     )}
                 </button>
              </div>
+             <div className="flex gap-2 w-full">
+               {currentFormat?.mimeType === 'audio/wav' && (
+                 <select
+                   value={wavBitDepth}
+                   onChange={(e) => setWavBitDepth(Number(e.target.value) as WavBitDepth)}
+                   disabled={isProcessingDownload}
+                   className="bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10 flex-1"
+                   title="WAV sample format"
+                 >
+                   <option value={16}>16-bit</option>
+                   <option value={24}>24-bit</option>
+                   <option value={32}>32-bit float</option>
+                 </select>
+               )}
+               <select
+                 value={exportSampleRate}
+                 onChange={(e) => setExportSampleRate(Number(e.target.value))}
+                 disabled={isProcessingDownload}
+                 className="bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10 flex-1"
+                 title="Export sample rate"
+               >
+                 <option value={0}>Original rate</option>
+                 <option value={44100}>44.1 kHz</option>
+                 <option value={48000}>48 kHz</option>
+               </select>
+             </div>
+             <div className="flex gap-2 w-full">
+               <select
+                 value={captionFormat ?? ''}
+                 onChange={(e) => setCaptionFormat((e.target.value || null) as CaptionFormat | null)}
+                 disabled={isProcessingDownload}
+                 className="bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10 flex-1"
+                 title="Captions downloaded with the audio"
+               >
+                 <option value="">No captions</option>
+                 {CAPTION_FORMATS.map(f => (
+                   <option key={f.value} value={f.value}>+ {f.label} captions</option>
+                 ))}
+               </select>
+               <button
+                 onClick={() => setShowCaptions(v => !v)}
+                 disabled={captionCues.length === 0}
+                 className={`px-3 h-10 rounded-xl text-xs font-bold border transition-colors disabled:opacity-40 ${
+                   showCaptions
+                     ? 'bg-violet-600/20 border-violet-500 text-violet-300'
+                     : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                 }`}
+                 title="Preview captions during playback"
+               >
+                 CC
+               </button>
+             </div>
+             {currentFormat?.encoder === 'mp3' && (
+               <select
+                 value={mp3Bitrate}
+                 onChange={(e) => setMp3Bitrate(Number(e.target.value))}
+                 disabled={isProcessingDownload}
+                 className="bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10"
+                 title="MP3 bitrate"
+               >
+                 {MP3_BITRATES.map(rate => (
+                   <option key={rate} value={rate}>{rate} kbps</option>
+                 ))}
+               </select>
+             )}
+             {currentFormat?.encoder === 'flac' && (
+               <select
+                 value={flacLevel}
+                 onChange={(e) => setFlacLevel(Number(e.target.value))}
+                 disabled={isProcessingDownload}
+                 className="bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10"
+                 title="FLAC compression level"
+               >
+                 {[0, 2, 5, 8].map(level => (
+                   <option key={level} value={level}>
+                     Compression {level}{level === 0 ? ' (fastest)' : level === 8 ? ' (smallest)' : ''}
+                   </option>
+                 ))}
+               </select>
+             )}
              {isProcessingDownload && (
                <p className="text-xs text-center text-slate-500 animate-pulse">
-                 Encoding in real-time. Please wait...
+                 {encodeProgress !== null
+                   ? `Encoding ${Math.round(encodeProgress * 100)}%...`
+                   : 'Encoding in real-time. Please wait...'}
                </p>
              )}
            </div>
+
+           <AudiobookPanel
+             chapters={audiobookChapters}
+             format={audiobookFormat}
+             bitrate={m4bBitrate}
+             m4bSupported={m4bSupported}
+             zipAudioLabel={currentFormat?.label ?? 'WAV'}
+             coverName={audiobookCover?.name ?? null}
+             isExporting={isExportingAudiobook}
+             progress={audiobookProgress}
+             onFormatChange={setAudiobookFormat}
+             onBitrateChange={setM4bBitrate}
+             onCoverChange={handleAudiobookCover}
+             onExport={handleAudiobookExport}
+           />
+
+           <VideoExportPanel
+             formats={videoFormats}
+             settings={videoSettings}
+             canExport={!!(mixBuffer ?? audioBuffer)}
+             hasCaptions={captionCues.length > 0}
+             backgroundName={videoBackground?.name ?? null}
+             isExporting={isExportingVideo}
+             progress={videoProgress}
+             onSettingsChange={setVideoSettings}
+             onBackgroundChange={setVideoBackground}
+             onExport={handleVideoExport}
+             onCancel={() => videoAbortRef.current?.abort()}
+           />
         </div>
 
       </main>
 
+      <HistoryPanel
+        formats={formats}
+        refreshKey={generationCount}
+        onPlay={handleHistoryPlay}
+        onDownload={handleHistoryDownload}
+      />
+
+      <BatchPanel
+        audioContextRef={audioContextRef}
+        provider={provider}
+        model={model}
+        formats={formats}
+        defaultVoice={voice}
+        exportOptions={exportOptions}
+        lexicon={lexicon}
+        currentText={text}
+        onUsage={recordUsage}
+      />
+
+      <UsagePanel records={usageRecords} limits={usageLimits} onLimitsChange={handleUsageLimitsChange} />
+
       <footer className="mt-8 text-slate-500 text-sm">
         <p>Powered by Google Gemini 2.5 Flash TTS</p>
       </footer>
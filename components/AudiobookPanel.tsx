@@ -0,0 +1,125 @@
+import React, { useRef } from 'react';
+import { AudiobookChapter, AudiobookFormat } from '../utils/audiobook';
+import { M4B_BITRATES } from '../utils/encoders/m4b';
+import { formatDuration } from '../utils/format';
+
+interface AudiobookPanelProps {
+  /** Chapters the export will have; empty until a story is generated. */
+  chapters: AudiobookChapter[];
+  format: AudiobookFormat;
+  bitrate: number;
+  /** Whether the browser can encode AAC for M4B. */
+  m4bSupported: boolean;
+  /** Label of the download format used for the files in a ZIP. */
+  zipAudioLabel: string;
+  coverName: string | null;
+  isExporting: boolean;
+  /** 0-1 fraction of the whole export, while exporting. */
+  progress: number | null;
+  onFormatChange: (format: AudiobookFormat) => void;
+  onBitrateChange: (bitrate: number) => void;
+  onCoverChange: (file: File | null) => void;
+  onExport: () => void;
+}
+
+const AudiobookPanel: React.FC<AudiobookPanelProps> = ({
+  chapters, format, bitrate, m4bSupported, zipAudioLabel, coverName, isExporting, progress,
+  onFormatChange, onBitrateChange, onCoverChange, onExport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectClass = "bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10 flex-1 disabled:opacity-40";
+  const disabled = chapters.length === 0 || isExporting;
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <label className="text-xs text-slate-500 uppercase tracking-widest font-semibold">Audiobook</label>
+      <div className="flex gap-2 w-full">
+        <select
+          value={format}
+          onChange={(e) => onFormatChange(e.target.value as AudiobookFormat)}
+          disabled={disabled}
+          className={selectClass}
+          title="Audiobook format"
+        >
+          <option value="m4b" disabled={!m4bSupported}>M4B (chaptered){m4bSupported ? '' : ' – not supported'}</option>
+          <option value="zip">ZIP ({zipAudioLabel} per chapter)</option>
+        </select>
+        {format === 'm4b' && (
+          <select
+            value={bitrate}
+            onChange={(e) => onBitrateChange(Number(e.target.value))}
+            disabled={disabled}
+            className={`${selectClass} flex-none w-28`}
+            title="AAC bitrate"
+          >
+            {M4B_BITRATES.map(rate => (
+              <option key={rate} value={rate}>{rate} kbps</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onCoverChange(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isExporting}
+          className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40"
+        >
+          {coverName ? 'Replace cover' : 'Cover art...'}
+        </button>
+        <span className="flex-1 truncate text-slate-500" title={coverName ?? undefined}>
+          {coverName ?? 'Generated from the title'}
+        </span>
+        {coverName && (
+          <button onClick={() => onCoverChange(null)} disabled={isExporting} className="px-1 text-slate-500 hover:text-red-400" title="Remove cover">
+            ✕
+          </button>
+        )}
+      </div>
+
+      {chapters.length > 0 && (
+        <details className="text-xs text-slate-400">
+          <summary className="cursor-pointer select-none">{chapters.length} {chapters.length === 1 ? 'chapter' : 'chapters'}</summary>
+          <ol className="mt-1 flex flex-col gap-0.5 max-h-32 overflow-y-auto">
+            {chapters.map((chapter, i) => (
+              <li key={i} className="flex gap-2">
+                <span className="flex-1 truncate text-slate-300" title={chapter.title}>{chapter.title}</span>
+                <span className="text-slate-600">{formatDuration(chapter.startTime)}</span>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+
+      <button
+        onClick={onExport}
+        disabled={disabled}
+        className={`w-full h-10 rounded-xl font-bold text-sm transition-all ${
+          disabled
+            ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
+            : 'bg-slate-800 text-blue-400 hover:bg-slate-700 hover:text-blue-300 border border-slate-700/50 hover:border-blue-500/50'
+        }`}
+      >
+        {isExporting ? `Exporting ${Math.round((progress ?? 0) * 100)}%...` : 'Export audiobook'}
+      </button>
+      {isExporting && (
+        <div className="h-1 w-full rounded-full bg-slate-800 overflow-hidden">
+          <div className="h-full bg-blue-500 transition-[width]" style={{ width: `${Math.round((progress ?? 0) * 100)}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudiobookPanel;
@@ -0,0 +1,331 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  BatchItem,
+  BatchStatus,
+  addBatchItems,
+  exportBatchZip,
+  listBatchItems,
+  loadBatchOutput,
+  removeBatchItems,
+  requeueInterrupted,
+  runBatch,
+  splitBatchInput,
+  updateBatchItem,
+} from '../services/batchQueue';
+import { formatErrorMessage } from '../services/ttsErrors';
+import {
+  UsageRecord,
+  checkUsageLimits,
+  createUsageRecord,
+  describeBreach,
+  estimateUsage,
+  loadUsageLimits,
+  loadUsageRecords,
+} from '../services/usageMeter';
+import { TTSProvider, VoiceName } from '../types';
+import { AudioFormat } from '../utils/audioUtils';
+import { ExportOptions, downloadBlob } from '../utils/audioExport';
+import { LexiconEntry } from '../utils/lexicon';
+import { STYLE_PRESETS } from '../utils/stylePresets';
+import { safeFileName } from '../utils/audiobook';
+import { formatBytes, formatDuration } from '../utils/format';
+
+interface BatchPanelProps {
+  audioContextRef: React.RefObject<AudioContext | null>;
+  provider: TTSProvider;
+  model: string;
+  formats: AudioFormat[];
+  defaultVoice: VoiceName;
+  exportOptions: ExportOptions;
+  lexicon: LexiconEntry[];
+  /** The story in the editor, offered as an item. */
+  currentText: string;
+  onUsage: (record: UsageRecord) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'text-slate-400',
+  running: 'text-blue-400 animate-pulse',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+/**
+ * Queue for generating many stories unattended. The queue lives in IndexedDB;
+ * a run interrupted by a reload starts again when the panel loads.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  audioContextRef, provider, model, formats, defaultVoice, exportOptions, lexicon, currentText, onUsage,
+}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [input, setInput] = useState<string>('');
+  const [voice, setVoice] = useState<VoiceName>(defaultVoice);
+  const [presetId, setPresetId] = useState<string>(STYLE_PRESETS[0].id);
+  const [format, setFormat] = useState<string>('audio/mpeg');
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Set when a reload interrupted a run; the run resumes once the export formats are known
+  const [resumePending, setResumePending] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setItems(await listBatchItems());
+    } catch (e) {
+      console.error("Failed to load the batch queue:", e);
+    }
+  }, []);
+
+  const updateItem = (item: BatchItem) => setItems(list => list.map(i => (i.id === item.id ? item : i)));
+
+  const start = async () => {
+    const ctx = audioContextRef.current;
+    if (!ctx || abortRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setMessage(null);
+    try {
+      await runBatch({
+        ctx,
+        provider,
+        model,
+        concurrency,
+        formats,
+        exportOptions,
+        lexicon,
+        signal: controller.signal,
+        onItemChange: updateItem,
+        onPause: setPausedUntil,
+        // Usage and limits are read from storage: the run outlives this render
+        beforeItem: (item) => {
+          const estimate = estimateUsage({ text: item.text, voice: item.voice, mode: 'narration', style: item.style }, provider, model);
+          const breach = checkUsageLimits(loadUsageRecords(), loadUsageLimits(), estimate).find(b => b.level === 'hard');
+          if (breach) throw new Error(`Stopped before "${item.title}". ${describeBreach(breach)}`);
+        },
+        onUsage: (item, progress, outcome) => {
+          onUsage(createUsageRecord(progress, { source: 'batch', providerId: provider.id, model, title: item.title, outcome }));
+        },
+      });
+    } catch (e) {
+      setMessage(formatErrorMessage(e, "The batch stopped."));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+      setPausedUntil(null);
+      reload();
+    }
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  // Find a run that a reload interrupted; stop ours when the panel goes away
+  useEffect(() => {
+    let cancelled = false;
+    requeueInterrupted()
+      .then(async (interrupted) => {
+        await reload();
+        if (interrupted > 0 && !cancelled) setResumePending(true);
+      })
+      .catch(e => console.error("Failed to restore the batch queue:", e));
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  // Resumed from a later render than the mount, so `start` sees the current props
+  useEffect(() => {
+    if (!resumePending || formats.length === 0) return;
+    setResumePending(false);
+    start();
+  }, [resumePending, formats.length]);
+
+  const handleAdd = async (texts: string[]) => {
+    if (texts.length === 0) return;
+    const direction = STYLE_PRESETS.find(p => p.id === presetId)?.direction ?? '';
+    try {
+      const added = await addBatchItems(texts.map(text => ({
+        text,
+        voice,
+        style: direction ? { direction } : undefined,
+        format,
+      })));
+      setItems(list => [...list, ...added]);
+      setInput('');
+    } catch (e: any) {
+      console.error("Failed to queue stories:", e);
+      setMessage(e.message || "Failed to add the stories to the queue.");
+    }
+  };
+
+  const handleRetry = async (ids: string[]) => {
+    try {
+      const updated = await Promise.all(ids.map(id => updateBatchItem(id, { status: 'queued', error: undefined, errorKind: undefined })));
+      updated.forEach(updateItem);
+    } catch (e: any) {
+      console.error("Failed to requeue stories:", e);
+      setMessage(e.message || "Failed to retry the stories.");
+      reload();
+    }
+  };
+
+  const handleRemove = async (ids: string[]) => {
+    try {
+      await removeBatchItems(ids);
+      setItems(list => list.filter(item => !ids.includes(item.id)));
+    } catch (e: any) {
+      console.error("Failed to remove stories:", e);
+      setMessage(e.message || "Failed to remove the stories.");
+      reload();
+    }
+  };
+
+  const handleDownload = async (item: BatchItem) => {
+    try {
+      const blob = await loadBatchOutput(item.id);
+      const ext = formats.find(f => f.mimeType === item.format)?.ext ?? 'wav';
+      if (blob) downloadBlob(blob, `${safeFileName(item.title) || 'story'}.${ext}`);
+      else setMessage(`The audio for "${item.title}" is missing.`);
+    } catch (e: any) {
+      console.error("Failed to load batch output:", e);
+      setMessage(e.message || "Failed to load the audio.");
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    try {
+      downloadBlob(await exportBatchZip(items), `gemini-stories-${Date.now()}.zip`);
+    } catch (e: any) {
+      setMessage(e.message || "Failed to build the ZIP.");
+    }
+  };
+
+  const count = (status: BatchStatus) => items.filter(item => item.status === status).length;
+  const failedIds = items.filter(item => item.status === 'failed').map(item => item.id);
+  const doneIds = items.filter(item => item.status === 'done').map(item => item.id);
+  const pending = splitBatchInput(input);
+
+  const selectClass = "bg-slate-800 text-slate-300 text-sm rounded-lg px-3 h-9 outline-none border border-slate-700 focus:border-blue-500 disabled:opacity-40";
+  const buttonClass = "px-3 py-1 rounded-md text-xs font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40";
+
+  return (
+    <section className="w-full max-w-4xl mt-8 bg-slate-900 border border-slate-800 rounded-2xl p-6 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex-1">Batch queue</h2>
+        <span className="text-xs text-slate-500">
+          {count('queued')} queued · {count('running')} running · {count('done')} done · {count('failed')} failed
+        </span>
+      </div>
+
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        placeholder={'Paste stories here, separated by a line with ---'}
+        className="w-full h-28 bg-slate-950 border border-slate-800 rounded-xl p-3 text-sm text-slate-300 outline-none focus:border-blue-500 resize-y"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={voice} onChange={(e) => setVoice(e.target.value as VoiceName)} className={selectClass} title="Voice">
+          {provider.listVoices().map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+        <select value={presetId} onChange={(e) => setPresetId(e.target.value)} className={selectClass} title="Delivery style">
+          {STYLE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <select value={format} onChange={(e) => setFormat(e.target.value)} className={selectClass} title="Output format">
+          {formats.map(f => <option key={f.mimeType} value={f.mimeType}>{f.label}</option>)}
+        </select>
+        <button onClick={() => handleAdd(pending)} disabled={pending.length === 0} className={buttonClass}>
+          Add {pending.length > 1 ? `${pending.length} stories` : 'story'}
+        </button>
+        <button onClick={() => handleAdd([currentText.trim()])} disabled={!currentText.trim()} className={buttonClass}>
+          Add current story
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isRunning ? (
+          <button onClick={stop} className="px-4 h-9 rounded-lg text-sm font-bold bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={count('queued') === 0}
+            className="px-4 h-9 rounded-lg text-sm font-bold bg-blue-600/20 text-blue-400 border border-blue-500/50 hover:bg-blue-600/30 disabled:opacity-40"
+          >
+            Run queue
+          </button>
+        )}
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Parallel requests
+          <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={isRunning} className={selectClass}>
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <span className="flex-1" />
+        <button onClick={() => handleRetry(failedIds)} disabled={failedIds.length === 0} className={buttonClass}>
+          Retry failed
+        </button>
+        <button onClick={() => handleRemove(doneIds)} disabled={doneIds.length === 0} className={buttonClass}>
+          Clear done
+        </button>
+        <button onClick={handleDownloadAll} disabled={doneIds.length === 0} className={buttonClass}>
+          Download all (ZIP)
+        </button>
+      </div>
+
+      {pausedUntil && (
+        <p className="text-xs text-amber-400">
+          Rate limited; the queue resumes at {new Date(pausedUntil).toLocaleTimeString()}.
+        </p>
+      )}
+      {message && <p className="text-xs text-slate-400">{message}</p>}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-500">Queued stories will appear here.</p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-slate-800 max-h-96 overflow-y-auto">
+          {items.map(item => (
+            <li key={item.id} className="py-2 flex flex-col gap-1">
+              <div className="flex items-center gap-3">
+                <span className={`text-xs font-semibold uppercase w-16 ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                <span className="flex-1 text-sm text-slate-200 truncate" title={item.text}>{item.title}</span>
+                <span className="text-xs text-slate-500 whitespace-nowrap">
+                  {item.voice}
+                  {item.style?.direction ? ` · ${STYLE_PRESETS.find(p => p.direction === item.style?.direction)?.label ?? 'Custom style'}` : ''}
+                  {item.status === 'done' && item.duration !== undefined && ` · ${formatDuration(item.duration)}`}
+                  {item.status === 'done' && item.size !== undefined && ` · ${formatBytes(item.size)}`}
+                </span>
+                {item.status === 'done' && (
+                  <button onClick={() => handleDownload(item)} className={buttonClass}>Download</button>
+                )}
+                {item.status === 'failed' && (
+                  <button onClick={() => handleRetry([item.id])} className={buttonClass}>Retry</button>
+                )}
+                <button
+                  onClick={() => handleRemove([item.id])}
+                  disabled={item.status === 'running'}
+                  className="px-2 py-1 rounded-md text-xs font-semibold text-red-400 hover:bg-red-500/20 disabled:opacity-40"
+                >
+                  Remove
+                </button>
+              </div>
+              {item.status === 'failed' && item.error && (
+                <p className="text-xs text-red-400/80 pl-[4.75rem]">
+                  {item.error}{item.attempts > 1 ? ` (attempt ${item.attempts})` : ''}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default BatchPanel;
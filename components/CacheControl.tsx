@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { CacheStats, clearAudioCache, getCacheStats } from '../services/audioCache';
+import { formatBytes } from '../utils/format';
+
+interface CacheControlProps {
+  /** Change this value to make the control re-read the cache statistics. */
+  refreshKey: number;
+}
+
+const CacheControl: React.FC<CacheControlProps> = ({ refreshKey }) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState<boolean>(false);
+
+  useEffect(() => {
+    getCacheStats()
+      .then(setStats)
+      .catch(() => setStats(null));
+  }, [refreshKey]);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await clearAudioCache();
+      setStats({ entries: 0, bytes: 0 });
+    } catch (e) {
+      console.error("Failed to clear audio cache:", e);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (!stats) return null;
+
+  return (
+    <div className="flex items-center justify-between text-xs text-slate-500">
+      <span>
+        Audio cache: {stats.entries} {stats.entries === 1 ? 'clip' : 'clips'} · {formatBytes(stats.bytes)}
+      </span>
+      <button
+        onClick={handleClear}
+        disabled={isClearing || stats.entries === 0}
+        className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      >
+        Clear cache
+      </button>
+    </div>
+  );
+};
+
+export default CacheControl;
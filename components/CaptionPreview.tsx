@@ -0,0 +1,37 @@
+import React from 'react';
+import { CaptionCue } from '../utils/captions';
+import { findSpanAt } from '../utils/timingMap';
+
+interface CaptionPreviewProps {
+  cues: CaptionCue[];
+  /** Playback position, in seconds. */
+  position: number;
+}
+
+/**
+ * Shows the caption cue at the playback position, the way a video player would
+ * render the exported captions.
+ */
+const CaptionPreview: React.FC<CaptionPreviewProps> = ({ cues, position }) => {
+  const index = findSpanAt(cues, position);
+  const cue = index >= 0 && position < cues[index].endTime ? cues[index] : null;
+
+  return (
+    <div className="w-full h-16 rounded-xl bg-black/60 border border-slate-800 flex items-center justify-center px-3 text-center" aria-live="polite">
+      {cue ? (
+        <p className="text-sm leading-snug text-white">
+          {cue.lines.map((line, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <br />}
+              {line}
+            </React.Fragment>
+          ))}
+        </p>
+      ) : (
+        <span className="text-xs text-slate-600">Captions</span>
+      )}
+    </div>
+  );
+};
+
+export default CaptionPreview;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { VoiceCasting, VoiceName } from '../types';
+
+interface CastingPanelProps {
+  speakers: string[];
+  voices: VoiceName[];
+  casting: VoiceCasting;
+  onChange: (casting: VoiceCasting) => void;
+}
+
+const CastingPanel: React.FC<CastingPanelProps> = ({ speakers, voices, casting, onChange }) => {
+  if (speakers.length === 0) {
+    return (
+      <p className="text-xs text-slate-500">
+        Write lines as <span className="font-mono text-slate-400">Name: line</span> to cast speakers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {speakers.map((speaker) => (
+        <div key={speaker} className="flex items-center gap-3">
+          <span className="flex-1 text-sm text-slate-300 truncate" title={speaker}>{speaker}</span>
+          <select
+            value={casting[speaker] ?? ''}
+            onChange={(e) => onChange({ ...casting, [speaker]: e.target.value as VoiceName })}
+            className="bg-slate-800 text-slate-300 text-sm rounded-lg px-3 py-1.5 outline-none border border-slate-700 focus:border-blue-500"
+          >
+            {voices.map((v) => (
+              <option key={v} value={v}>{v}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+      {speakers.length > 2 && (
+        <p className="text-xs text-slate-500">
+          More than two speakers: each speaker's lines are synthesized separately and stitched together.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CastingPanel;
@@ -0,0 +1,113 @@
+import React, { useRef } from 'react';
+import { ImportedDocument, IMPORT_ACCEPT } from '../utils/documentImport';
+import { Chapter } from '../utils/importers/chapters';
+import { TEXT_ENCODINGS, TextEncoding } from '../utils/importers/textEncoding';
+
+interface ChapterPanelProps {
+  /** The imported document, if any. */
+  document: ImportedDocument | null;
+  isImporting: boolean;
+  onImport: (file: File) => void;
+  /** Re-reads the imported text file with another encoding. */
+  onEncodingChange: (encoding: TextEncoding) => void;
+  onChange: (chapters: Chapter[]) => void;
+  /** Jumps to the chapter in the editor. */
+  onSelect: (chapter: Chapter) => void;
+  onClose: () => void;
+}
+
+const ChapterPanel: React.FC<ChapterPanelProps> = ({
+  document, isImporting, onImport, onEncodingChange, onChange, onSelect, onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const chapters = document?.chapters ?? [];
+  const includedCount = chapters.filter(chapter => chapter.included).length;
+
+  const move = (index: number, delta: number) => {
+    const next = [...chapters];
+    const [chapter] = next.splice(index, 1);
+    next.splice(index + delta, 0, chapter);
+    onChange(next);
+  };
+  const setIncluded = (id: string, included: boolean) =>
+    onChange(chapters.map(chapter => (chapter.id === id ? { ...chapter, included } : chapter)));
+
+  const buttonClass = "px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-400">
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button onClick={() => fileInputRef.current?.click()} disabled={isImporting} className={buttonClass}>
+          {isImporting ? 'Importing...' : 'Import document...'}
+        </button>
+        {document ? (
+          <>
+            <span className="flex-1 truncate text-slate-300" title={document.title}>
+              {document.title} · {includedCount}/{chapters.length} chapters
+            </span>
+            {document.encoding && (
+              <select
+                value={document.encoding}
+                onChange={(e) => onEncodingChange(e.target.value as TextEncoding)}
+                className="bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-slate-300 outline-none focus:border-blue-500"
+                title="Text encoding"
+              >
+                {TEXT_ENCODINGS.map(encoding => (
+                  <option key={encoding.value} value={encoding.value}>{encoding.label}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={onClose} className="px-1 text-slate-500 hover:text-red-400" title="Close document (keeps the text)">
+              ✕
+            </button>
+          </>
+        ) : (
+          <span className="text-slate-500">.txt, .md, .epub or .docx</span>
+        )}
+      </div>
+
+      {chapters.length > 1 && (
+        <>
+          <ol className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {chapters.map((chapter, index) => (
+              <li key={chapter.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={chapter.included}
+                  onChange={(e) => setIncluded(chapter.id, e.target.checked)}
+                  className="accent-blue-500"
+                  title="Include in the story"
+                />
+                <button
+                  onClick={() => onSelect(chapter)}
+                  disabled={!chapter.included}
+                  className={`flex-1 truncate text-left ${chapter.included ? 'text-slate-300 hover:text-blue-400' : 'text-slate-600 line-through'}`}
+                  title={chapter.title}
+                >
+                  {chapter.title}
+                </button>
+                <span className="text-slate-600">{chapter.text.length.toLocaleString()} chars</span>
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="px-1 hover:text-blue-400 disabled:opacity-30" title="Move up">↑</button>
+                <button onClick={() => move(index, 1)} disabled={index === chapters.length - 1} className="px-1 hover:text-blue-400 disabled:opacity-30" title="Move down">↓</button>
+              </li>
+            ))}
+          </ol>
+          <p className="text-slate-600">Changing the chapter list rewrites the story text from the document.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChapterPanel;
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  HistoryEntry,
+  StorageUsage,
+  deleteHistoryEntry,
+  getStorageUsage,
+  listHistory,
+  searchHistory,
+  updateHistoryEntry,
+} from '../services/historyStore';
+import { AudioFormat } from '../utils/audioUtils';
+import { formatBytes, formatDuration } from '../utils/format';
+
+interface HistoryPanelProps {
+  formats: AudioFormat[];
+  /** Change this value to reload the list (e.g. after a new generation was saved). */
+  refreshKey: number;
+  onPlay: (entry: HistoryEntry) => void;
+  onDownload: (entry: HistoryEntry, format: AudioFormat) => Promise<void>;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ formats, refreshKey, onPlay, onDownload }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+  const [exportFormat, setExportFormat] = useState<string>('audio/wav');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const list = await listHistory();
+      setEntries(list);
+      setUsage(await getStorageUsage(list));
+    } catch (e) {
+      console.error("Failed to load history:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const visible = useMemo(() => searchHistory(entries, query), [entries, query]);
+
+  const startRename = (entry: HistoryEntry) => {
+    setEditingId(entry.id);
+    setDraftTitle(entry.title);
+  };
+
+  const commitRename = async (entry: HistoryEntry) => {
+    setEditingId(null);
+    const title = draftTitle.trim();
+    if (!title || title === entry.title) return;
+    try {
+      const updated = await updateHistoryEntry(entry.id, { title });
+      setEntries(list => list.map(e => (e.id === entry.id ? updated : e)));
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to rename history entry:", e);
+      setError(e.message || "Failed to rename the story.");
+      // The entry may have been deleted elsewhere, e.g. in another tab
+      reload();
+    }
+  };
+
+  const handleTags = async (entry: HistoryEntry, value: string) => {
+    const tags = Array.from(new Set(value.split(',').map(t => t.trim()).filter(Boolean)));
+    if (tags.join(',') === entry.tags.join(',')) return;
+    try {
+      const updated = await updateHistoryEntry(entry.id, { tags });
+      setEntries(list => list.map(e => (e.id === entry.id ? updated : e)));
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to update history tags:", e);
+      setError(e.message || "Failed to save the tags.");
+      reload();
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete "${entry.title}" from history?`)) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to delete history entry:", e);
+      setError(e.message || "Failed to delete the story.");
+    }
+    reload();
+  };
+
+  const handleDownload = async (entry: HistoryEntry) => {
+    const format = formats.find(f => f.mimeType === exportFormat) || formats[0];
+    setBusyId(entry.id);
+    try {
+      await onDownload(entry, format);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="w-full max-w-4xl mt-8 bg-slate-900 border border-slate-800 rounded-2xl p-6 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex-1">History</h2>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search title, tags, voice or text..."
+          className="bg-slate-950 border border-slate-800 rounded-lg px-3 h-9 text-sm text-slate-300 outline-none focus:border-blue-500 sm:w-64"
+        />
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value)}
+          className="bg-slate-800 text-slate-300 text-sm rounded-lg px-3 h-9 outline-none border border-slate-700 focus:border-blue-500"
+          title="Format used when re-downloading"
+        >
+          {formats.map(f => (
+            <option key={f.mimeType} value={f.mimeType}>{f.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {entries.length === 0 ? 'Generated stories will appear here.' : 'No entries match your search.'}
+        </p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-slate-800 max-h-96 overflow-y-auto">
+          {visible.map(entry => (
+            <li key={entry.id} className="py-3 flex flex-col gap-2">
+              <div className="flex items-center gap-3">
+                {editingId === entry.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={() => commitRename(entry)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(entry);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 bg-slate-950 border border-blue-500 rounded-md px-2 py-1 text-sm text-slate-200 outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => startRename(entry)}
+                    className="flex-1 text-left text-sm font-medium text-slate-200 truncate hover:text-blue-400"
+                    title="Rename"
+                  >
+                    {entry.title}
+                  </button>
+                )}
+                <span className="text-xs text-slate-500 whitespace-nowrap">
+                  {entry.voice} · {formatDuration(entry.duration)} · {new Date(entry.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  key={entry.tags.join(',')}
+                  defaultValue={entry.tags.join(', ')}
+                  onBlur={(e) => handleTags(entry, e.target.value)}
+                  placeholder="Tags, comma separated"
+                  className="flex-1 bg-transparent border border-slate-800 rounded-md px-2 py-1 text-xs text-slate-400 outline-none focus:border-slate-600"
+                />
+                <button
+                  onClick={() => onPlay(entry)}
+                  className="px-3 py-1 rounded-md text-xs font-semibold bg-blue-600/20 text-blue-400 hover:bg-blue-600/30"
+                >
+                  Play
+                </button>
+                <button
+                  onClick={() => handleDownload(entry)}
+                  disabled={busyId !== null}
+                  className="px-3 py-1 rounded-md text-xs font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+                >
+                  {busyId === entry.id ? 'Encoding...' : 'Download'}
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="px-3 py-1 rounded-md text-xs font-semibold text-red-400 hover:bg-red-500/20"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {usage && (
+        <p className="text-xs text-slate-500">
+          {entries.length} {entries.length === 1 ? 'story' : 'stories'} · {formatBytes(usage.historyBytes)} of audio
+          {usage.usage !== undefined && usage.quota !== undefined &&
+            ` · ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} browser storage used`}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
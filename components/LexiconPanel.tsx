@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+import { VoiceName } from '../types';
+import { LexiconEntry } from '../utils/lexicon';
+
+interface LexiconPanelProps {
+  entries: LexiconEntry[];
+  voices: VoiceName[];
+  /** Key of the current story, for entries scoped to it. */
+  storyKey: string;
+  /** Id of the entry whose test is being synthesized. */
+  testingId: string | null;
+  onChange: (entries: LexiconEntry[]) => void;
+  onTest: (entry: LexiconEntry) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const LexiconPanel: React.FC<LexiconPanelProps> = ({
+  entries, voices, storyKey, testingId, onChange, onTest, onImport, onExport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Entries scoped to other stories are kept but not shown
+  const visible = entries.filter(entry => !entry.project || entry.project === storyKey);
+  const hiddenCount = entries.length - visible.length;
+
+  const update = (id: string, changes: Partial<LexiconEntry>) =>
+    onChange(entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  const remove = (id: string) => onChange(entries.filter(entry => entry.id !== id));
+  const add = () => onChange([...entries, { id: crypto.randomUUID(), word: '', replacement: '' }]);
+
+  const inputClass = "min-w-0 flex-1 bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-slate-300 outline-none focus:border-blue-500";
+  const buttonClass = "px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40";
+
+  return (
+    <details className="text-xs text-slate-400">
+      <summary className="cursor-pointer select-none font-semibold uppercase tracking-wider">
+        Pronunciation{visible.length > 0 ? ` (${visible.length})` : ''}
+      </summary>
+
+      <div className="mt-2 flex flex-col gap-2">
+        {visible.length === 0 && (
+          <p className="text-slate-500">
+            Add names or words the voice gets wrong, with a respelling such as <span className="font-mono text-slate-400">Ree-tah</span>.
+          </p>
+        )}
+
+        {visible.map(entry => (
+          <div key={entry.id} className="flex items-center gap-2">
+            <input
+              value={entry.word}
+              onChange={(e) => update(entry.id, { word: e.target.value })}
+              placeholder="Word"
+              className={inputClass}
+            />
+            <span className="text-slate-600">→</span>
+            <input
+              value={entry.replacement}
+              onChange={(e) => update(entry.id, { replacement: e.target.value })}
+              placeholder="Say it as"
+              className={inputClass}
+            />
+            <select
+              value={entry.voice ?? ''}
+              onChange={(e) => update(entry.id, { voice: (e.target.value || undefined) as VoiceName | undefined })}
+              className="bg-slate-950 border border-slate-800 rounded-md px-1 py-1 text-slate-300 outline-none focus:border-blue-500"
+              title="Voice this entry applies to"
+            >
+              <option value="">All voices</option>
+              {voices.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+            <label className="flex items-center gap-1 whitespace-nowrap" title="Only apply to the current story">
+              <input
+                type="checkbox"
+                checked={!!entry.project}
+                onChange={(e) => update(entry.id, { project: e.target.checked ? storyKey : undefined })}
+                className="accent-blue-500"
+              />
+              Story
+            </label>
+            <button
+              onClick={() => onTest(entry)}
+              disabled={!entry.replacement.trim() || testingId !== null}
+              className={buttonClass}
+              title="Synthesize just this entry"
+            >
+              {testingId === entry.id ? '...' : 'Test'}
+            </button>
+            <button onClick={() => remove(entry.id)} className="px-1 text-slate-500 hover:text-red-400" title="Remove">
+              ✕
+            </button>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <button onClick={add} className={buttonClass}>Add word</button>
+          <span className="flex-1 text-slate-600">{hiddenCount > 0 && `${hiddenCount} more for other stories`}</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import</button>
+          <button onClick={onExport} disabled={entries.length === 0} className={buttonClass}>Export</button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default LexiconPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { lineAndColumn, MarkupError } from '../utils/markup';
+
+interface MarkupErrorsProps {
+  text: string;
+  errors: MarkupError[];
+  /** Called when an error is clicked, e.g. to select the offending markup. */
+  onSelect: (error: MarkupError) => void;
+}
+
+const MarkupErrors: React.FC<MarkupErrorsProps> = ({ text, errors, onSelect }) => {
+  if (errors.length === 0) return null;
+
+  return (
+    <ul className="flex flex-col gap-1 text-xs text-red-400 bg-red-500/5 border border-red-500/20 rounded-lg p-2 max-h-32 overflow-y-auto">
+      {errors.map((error, index) => {
+        const { line, column } = lineAndColumn(text, error.start);
+        return (
+          <li key={index}>
+            <button onClick={() => onSelect(error)} className="text-left hover:text-red-300">
+              <span className="font-mono text-red-500/80 mr-2">{line}:{column}</span>
+              <span className="font-mono text-slate-400 mr-2">{text.slice(error.start, error.end)}</span>
+              {error.message}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default MarkupErrors;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { LOUDNESS_TARGETS, LoudnessReport, LoudnessStats, MasteringOptions } from '../utils/mastering';
+
+interface MasteringPanelProps {
+  enabled: boolean;
+  options: MasteringOptions;
+  /** Loudness of the last generation, if it was mastered. */
+  report: LoudnessReport | null;
+  onToggle: (enabled: boolean) => void;
+  onChange: (options: MasteringOptions) => void;
+}
+
+const formatStats = ({ integrated, truePeak }: LoudnessStats): string =>
+  `${Number.isFinite(integrated) ? integrated.toFixed(1) : '-∞'} LUFS · ${Number.isFinite(truePeak) ? truePeak.toFixed(1) : '-∞'} dBTP`;
+
+const MasteringPanel: React.FC<MasteringPanelProps> = ({ enabled, options, report, onToggle, onChange }) => {
+  const update = (changes: Partial<MasteringOptions>) => onChange({ ...options, ...changes });
+
+  const selectClass = "bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-400">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} className="accent-blue-500" />
+        <span className="font-semibold uppercase tracking-wider">Mastering</span>
+      </label>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={options.targetLufs ?? ''}
+          onChange={(e) => update({ targetLufs: e.target.value === '' ? null : Number(e.target.value) })}
+          disabled={!enabled}
+          className={selectClass}
+          title="Loudness target"
+        >
+          {LOUDNESS_TARGETS.map(target => (
+            <option key={target.value} value={target.value}>{target.label}</option>
+          ))}
+          <option value="">Keep level (limit only)</option>
+        </select>
+
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.trimSilence}
+            onChange={(e) => update({ trimSilence: e.target.checked })}
+            disabled={!enabled}
+            className="accent-blue-500"
+          />
+          Trim silence
+        </label>
+
+        <label className="flex items-center gap-1">
+          Max pause
+          <select
+            value={options.maxSilenceSeconds}
+            onChange={(e) => update({ maxSilenceSeconds: Number(e.target.value) })}
+            disabled={!enabled}
+            className={selectClass}
+          >
+            <option value={0}>Off</option>
+            <option value={0.5}>0.5s</option>
+            <option value={1}>1s</option>
+            <option value={2}>2s</option>
+          </select>
+        </label>
+
+        <label className="flex items-center gap-1">
+          Paragraph pause
+          <select
+            value={options.paragraphPauseSeconds}
+            onChange={(e) => update({ paragraphPauseSeconds: Number(e.target.value) })}
+            disabled={!enabled}
+            className={selectClass}
+          >
+            {[0.35, 0.8, 1.2, 2].map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}s</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {report && (
+        <p className="text-slate-500">
+          Loudness: {formatStats(report.before)} → <span className="text-slate-300">{formatStats(report.after)}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MasteringPanel;
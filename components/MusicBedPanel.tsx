@@ -0,0 +1,111 @@
+import React, { useRef } from 'react';
+import { MusicBedOptions } from '../utils/musicBed';
+import { formatDuration } from '../utils/format';
+
+interface MusicBedPanelProps {
+  /** The loaded bed, if any. */
+  bed: { name: string; duration: number } | null;
+  options: MusicBedOptions;
+  isLoading: boolean;
+  onLoad: (file: File) => void;
+  onRemove: () => void;
+  onChange: (options: MusicBedOptions) => void;
+}
+
+const MusicBedPanel: React.FC<MusicBedPanelProps> = ({ bed, options, isLoading, onLoad, onRemove, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const update = (changes: Partial<MusicBedOptions>) => onChange({ ...options, ...changes });
+
+  const selectClass = "bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-400">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold uppercase tracking-wider flex-1">Music bed</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoad(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40"
+        >
+          {isLoading ? 'Loading...' : bed ? 'Replace' : 'Add music...'}
+        </button>
+        {bed && (
+          <button
+            onClick={onRemove}
+            className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-red-400 hover:border-red-500/50"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      {bed && (
+        <>
+          <p className="text-slate-500 truncate" title={bed.name}>{bed.name} · {formatDuration(bed.duration)}</p>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Level
+              <input
+                type="range"
+                min={-40}
+                max={0}
+                step={1}
+                value={options.levelDb}
+                onChange={(e) => update({ levelDb: Number(e.target.value) })}
+                className="w-24 accent-blue-500"
+              />
+              <span className="w-12 text-slate-300">{options.levelDb} dB</span>
+            </label>
+
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={options.loop} onChange={(e) => update({ loop: e.target.checked })} className="accent-blue-500" />
+              Loop
+            </label>
+
+            <label className="flex items-center gap-1">
+              Fade in
+              <select value={options.fadeInSeconds} onChange={(e) => update({ fadeInSeconds: Number(e.target.value) })} className={selectClass}>
+                {[0, 1, 2, 5].map(s => <option key={s} value={s}>{s}s</option>)}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-1">
+              Fade out
+              <select value={options.fadeOutSeconds} onChange={(e) => update({ fadeOutSeconds: Number(e.target.value) })} className={selectClass}>
+                {[0, 1, 3, 5].map(s => <option key={s} value={s}>{s}s</option>)}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={options.duck} onChange={(e) => update({ duck: e.target.checked })} className="accent-blue-500" />
+              Duck under speech
+            </label>
+
+            <select
+              value={options.duckDb}
+              onChange={(e) => update({ duckDb: Number(e.target.value) })}
+              disabled={!options.duck}
+              className={selectClass}
+              title="Ducking depth"
+            >
+              {[-6, -12, -18, -24].map(db => <option key={db} value={db}>{db} dB</option>)}
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MusicBedPanel;
@@ -0,0 +1,106 @@
+import React, { useRef } from 'react';
+import { PROJECT_EXTENSION, StoryProject } from '../services/projectStore';
+
+interface ProjectBarProps {
+  name: string;
+  /** Id of the open project, highlighted in the Recent list. */
+  projectId: string;
+  recent: StoryProject[];
+  /** Time of the last autosave, or null before the first one. */
+  savedAt: number | null;
+  /** Whether Save bundles the generated audio. */
+  includeAudio: boolean;
+  hasAudio: boolean;
+  disabled: boolean;
+  onNameChange: (name: string) => void;
+  onIncludeAudioChange: (include: boolean) => void;
+  onNew: () => void;
+  onOpen: (file: File) => void;
+  onSave: () => void;
+  onOpenRecent: (project: StoryProject) => void;
+  onDeleteRecent: (project: StoryProject) => void;
+}
+
+const ProjectBar: React.FC<ProjectBarProps> = ({
+  name, projectId, recent, savedAt, includeAudio, hasAudio, disabled,
+  onNameChange, onIncludeAudioChange, onNew, onOpen, onSave, onOpenRecent, onDeleteRecent,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass = "px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-slate-400">
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => onNameChange(e.target.value)}
+          placeholder="Project name"
+          aria-label="Project name"
+          className="min-w-0 flex-1 bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-sm text-slate-200 outline-none focus:border-blue-500"
+        />
+        <button onClick={onNew} disabled={disabled} className={buttonClass}>New</button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClass}>Open…</button>
+        <button onClick={onSave} disabled={disabled} className={buttonClass}>Save</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`.${PROJECT_EXTENSION},.json,application/zip,application/json`}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onOpen(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1" title="Bundle the generated audio in the saved file">
+          <input
+            type="checkbox"
+            checked={includeAudio && hasAudio}
+            disabled={!hasAudio}
+            onChange={(e) => onIncludeAudioChange(e.target.checked)}
+            className="accent-blue-500"
+          />
+          Include audio
+        </label>
+        <span className="flex-1 text-right text-slate-500">
+          {savedAt ? `Autosaved ${new Date(savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'Not saved yet'}
+        </span>
+      </div>
+
+      {recent.length > 0 && (
+        <details>
+          <summary className="cursor-pointer select-none font-semibold uppercase tracking-wider">Recent ({recent.length})</summary>
+          <ul className="mt-2 flex flex-col gap-1">
+            {recent.map(project => (
+              <li key={project.id} className="flex items-center gap-2">
+                <button
+                  onClick={() => onOpenRecent(project)}
+                  disabled={disabled || project.id === projectId}
+                  className={`flex-1 min-w-0 text-left truncate hover:text-blue-400 disabled:hover:text-inherit ${project.id === projectId ? 'text-blue-400' : 'text-slate-300'}`}
+                  title={project.name}
+                >
+                  {project.name}
+                  {project.audio && <span className="text-slate-500"> · {Math.round(project.audio.duration)}s audio</span>}
+                </button>
+                <span className="text-slate-500 whitespace-nowrap">{new Date(project.updatedAt).toLocaleString()}</span>
+                <button
+                  onClick={() => onDeleteRecent(project)}
+                  disabled={disabled}
+                  className="text-slate-500 hover:text-red-400 disabled:opacity-40"
+                  aria-label={`Remove ${project.name}`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ProjectBar;
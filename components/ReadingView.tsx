@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { TimedSegment } from '../types';
+import { findSpanAt } from '../utils/timingMap';
+
+interface ReadingViewProps {
+  text: string;
+  timing: TimedSegment[];
+  position: number;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Read-only rendering of the story that highlights the sentence and word being
+ * spoken. Clicking a sentence seeks playback to it.
+ */
+const ReadingView: React.FC<ReadingViewProps> = ({ text, timing, position, onSeek }) => {
+  const activeRef = useRef<HTMLSpanElement>(null);
+
+  const activeIndex = findSpanAt(timing, position);
+  const active = activeIndex >= 0 && position < timing[activeIndex].endTime ? activeIndex : -1;
+  const activeWord = active >= 0 ? findSpanAt(timing[active].words, position) : -1;
+
+  // Split the text into gaps and sentences once per timing map
+  const pieces = useMemo(() => {
+    const result: { text: string; segment: number }[] = [];
+    let cursor = 0;
+    timing.forEach((segment, i) => {
+      if (segment.start > cursor) result.push({ text: text.slice(cursor, segment.start), segment: -1 });
+      result.push({ text: text.slice(segment.start, segment.end), segment: i });
+      cursor = segment.end;
+    });
+    if (cursor < text.length) result.push({ text: text.slice(cursor), segment: -1 });
+    return result;
+  }, [text, timing]);
+
+  // Keep the active sentence in view
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active]);
+
+  const renderSentence = (index: number) => {
+    const segment = timing[index];
+    if (index !== active) return text.slice(segment.start, segment.end);
+
+    // Highlight the active word inside the active sentence
+    const word = segment.words[activeWord];
+    if (!word) return text.slice(segment.start, segment.end);
+    return (
+      <>
+        {text.slice(segment.start, word.start)}
+        <span className="underline decoration-2 decoration-violet-400 underline-offset-4">{text.slice(word.start, word.end)}</span>
+        {text.slice(word.end, segment.end)}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex-1 w-full bg-slate-950 border border-slate-800 rounded-xl p-4 text-base leading-relaxed text-slate-400 overflow-y-auto whitespace-pre-wrap max-h-[60vh]">
+      {pieces.map((piece, i) =>
+        piece.segment < 0 ? (
+          <React.Fragment key={i}>{piece.text}</React.Fragment>
+        ) : (
+          <span
+            key={i}
+            ref={piece.segment === active ? activeRef : undefined}
+            onClick={() => onSeek(timing[piece.segment].startTime)}
+            className={`cursor-pointer rounded transition-colors ${
+              piece.segment === active ? 'bg-blue-500/20 text-slate-100' : 'hover:bg-slate-800/60'
+            }`}
+          >
+            {renderSentence(piece.segment)}
+          </span>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ReadingView;
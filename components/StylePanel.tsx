@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { StyleConfig } from '../types';
+import { STYLE_PRESETS } from '../utils/stylePresets';
+
+interface StylePanelProps {
+  style: StyleConfig;
+  /** Text of each paragraph (or dialogue line), in order, for per-paragraph overrides. */
+  paragraphs: string[];
+  onChange: (style: StyleConfig) => void;
+}
+
+const CUSTOM = 'custom';
+// Length of the paragraph preview shown next to its override
+const PREVIEW_LENGTH = 48;
+
+const StylePanel: React.FC<StylePanelProps> = ({ style, paragraphs, onChange }) => {
+  const preset = STYLE_PRESETS.find(p => p.direction === style.direction);
+  const [isCustom, setIsCustom] = useState<boolean>(!preset);
+  const overrides = style.paragraphs ?? {};
+  const overrideCount = Object.keys(overrides).filter(index => Number(index) < paragraphs.length).length;
+
+  const setOverride = (index: number, direction: string) => {
+    const next = { ...overrides };
+    if (direction) next[index] = direction;
+    else delete next[index];
+    onChange({ ...style, paragraphs: next });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={isCustom || !preset ? CUSTOM : preset.id}
+          onChange={(e) => {
+            const selected = STYLE_PRESETS.find(p => p.id === e.target.value);
+            setIsCustom(!selected);
+            if (selected) onChange({ ...style, direction: selected.direction });
+          }}
+          className="bg-slate-950 border border-slate-800 rounded-lg px-3 h-9 text-sm text-slate-300 outline-none focus:border-blue-500"
+        >
+          {STYLE_PRESETS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+          <option value={CUSTOM}>Custom...</option>
+        </select>
+        {(isCustom || !preset) && (
+          <input
+            value={style.direction}
+            onChange={(e) => onChange({ ...style, direction: e.target.value })}
+            placeholder="e.g. Read with quiet wonder, like a nature documentary"
+            className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 h-9 text-sm text-slate-300 outline-none focus:border-blue-500"
+          />
+        )}
+      </div>
+
+      {paragraphs.length > 1 && (
+        <details className="text-xs text-slate-400">
+          <summary className="cursor-pointer select-none">
+            Per-paragraph direction{overrideCount > 0 ? ` (${overrideCount} set)` : ''}
+          </summary>
+          <datalist id="style-preset-directions">
+            {STYLE_PRESETS.filter(p => p.direction).map(p => (
+              <option key={p.id} value={p.direction}>{p.label}</option>
+            ))}
+          </datalist>
+          <ul className="mt-2 flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {paragraphs.map((paragraph, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <span className="w-40 truncate text-slate-500" title={paragraph}>
+                  {index + 1}. {paragraph.slice(0, PREVIEW_LENGTH)}
+                </span>
+                <input
+                  list="style-preset-directions"
+                  value={overrides[index] ?? ''}
+                  onChange={(e) => setOverride(index, e.target.value)}
+                  placeholder="Story default"
+                  className="flex-1 bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-slate-300 outline-none focus:border-blue-500"
+                />
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default StylePanel;
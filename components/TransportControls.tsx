@@ -0,0 +1,126 @@
+import React, { useEffect, useRef } from 'react';
+import { PLAYBACK_RATES, Transport } from '../hooks/useTransport';
+import { formatDuration } from '../utils/format';
+
+interface TransportControlsProps {
+  transport: Transport;
+  /** Whether anything can be played (a buffer is loaded or a stream is running). */
+  hasAudio: boolean;
+  onPreviousParagraph: () => void;
+  onNextParagraph: () => void;
+}
+
+// Seconds skipped by the skip buttons and arrow keys.
+const SKIP_SECONDS = 10;
+
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+const TransportControls: React.FC<TransportControlsProps> = ({
+  transport,
+  hasAudio,
+  onPreviousParagraph,
+  onNextParagraph,
+}) => {
+  const { isPlaying, isStreaming, position, duration, rate } = transport;
+  const canSeek = duration > 0;
+
+  // Latest props for the keyboard handler, which is registered only once
+  const latestRef = useRef({ transport, onPreviousParagraph, onNextParagraph });
+  latestRef.current = { transport, onPreviousParagraph, onNextParagraph };
+
+  // Keyboard shortcuts: Space toggles, arrows skip, Shift+arrows jump paragraphs
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      const { transport, onPreviousParagraph, onNextParagraph } = latestRef.current;
+
+      if (e.code === 'Space') {
+        e.preventDefault();
+        transport.toggle();
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        if (e.shiftKey) onPreviousParagraph();
+        else transport.skip(-SKIP_SECONDS);
+      } else if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        if (e.shiftKey) onNextParagraph();
+        else transport.skip(SKIP_SECONDS);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  const buttonClass = (enabled: boolean) =>
+    `h-10 min-w-10 px-2 rounded-lg text-xs font-bold transition-all ${
+      enabled ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-800/50 text-slate-600 cursor-not-allowed'
+    }`;
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="flex flex-col gap-1">
+        <input
+          type="range"
+          min={0}
+          max={canSeek ? duration : 1}
+          step={0.1}
+          value={canSeek ? Math.min(position, duration) : 0}
+          onChange={(e) => transport.seek(Number(e.target.value))}
+          disabled={!canSeek}
+          aria-label="Seek"
+          className="w-full accent-blue-500 disabled:opacity-40"
+        />
+        <div className="flex justify-between text-xs text-slate-500 font-mono">
+          <span>{formatDuration(position)}</span>
+          <span>{canSeek ? formatDuration(duration) : isStreaming ? 'streaming…' : '0:00'}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-1">
+        <button onClick={onPreviousParagraph} disabled={!canSeek} className={buttonClass(canSeek)} title="Previous paragraph (Shift+←)">
+          ⏮
+        </button>
+        <button onClick={() => transport.skip(-SKIP_SECONDS)} disabled={!canSeek} className={buttonClass(canSeek)} title="Back 10s (←)">
+          -10s
+        </button>
+        <button
+          onClick={transport.toggle}
+          disabled={!hasAudio || (isStreaming && !canSeek)}
+          className={`flex-1 h-10 rounded-xl font-bold transition-all ${
+            !hasAudio || (isStreaming && !canSeek)
+              ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-500 shadow-lg shadow-blue-900/20'
+          }`}
+          title="Play/Pause (Space)"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={() => transport.skip(SKIP_SECONDS)} disabled={!canSeek} className={buttonClass(canSeek)} title="Forward 10s (→)">
+          +10s
+        </button>
+        <button onClick={onNextParagraph} disabled={!canSeek} className={buttonClass(canSeek)} title="Next paragraph (Shift+→)">
+          ⏭
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <label htmlFor="rate-select" className="uppercase tracking-widest font-semibold">Speed</label>
+        <select
+          id="rate-select"
+          value={rate}
+          onChange={(e) => transport.setRate(Number(e.target.value))}
+          className="bg-slate-800 text-slate-300 text-xs rounded-lg px-2 h-8 outline-none border border-slate-700 focus:border-blue-500"
+        >
+          {PLAYBACK_RATES.map(r => (
+            <option key={r} value={r}>{r}x</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default TransportControls;
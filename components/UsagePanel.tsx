@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import {
+  LimitThresholds,
+  USAGE_METRICS,
+  UsageLimits,
+  UsageMetric,
+  UsagePeriod,
+  UsageRecord,
+  UsageTotals,
+  exportUsageCsv,
+  formatUsageValue,
+  usageByDay,
+  usageInPeriod,
+} from '../services/usageMeter';
+import { downloadBlob } from '../utils/audioExport';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  limits: UsageLimits;
+  onLimitsChange: (limits: UsageLimits) => void;
+}
+
+const PERIODS: { id: UsagePeriod; label: string }[] = [
+  { id: 'day', label: 'Today' },
+  { id: 'month', label: 'This month' },
+];
+
+// Days shown in the daily breakdown
+const HISTORY_DAYS = 14;
+
+// Audio limits are entered in minutes and stored in seconds
+const INPUT_SCALE: Partial<Record<UsageMetric, number>> = { outputSeconds: 60 };
+const INPUT_LABELS: Partial<Record<UsageMetric, string>> = { outputSeconds: 'Audio (min)' };
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, limits, onLimitsChange }) => {
+  const totals = useMemo(
+    () => Object.fromEntries(PERIODS.map(p => [p.id, usageInPeriod(records, p.id)])) as Record<UsagePeriod, UsageTotals>,
+    [records]
+  );
+  const days = useMemo(() => usageByDay(records, HISTORY_DAYS), [records]);
+
+  const setThreshold = (period: UsagePeriod, metric: UsageMetric, level: keyof LimitThresholds, value: string) => {
+    const parsed = parseFloat(value);
+    const thresholds: LimitThresholds = { ...limits[period][metric] };
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      thresholds[level] = parsed * (INPUT_SCALE[metric] ?? 1);
+    } else {
+      delete thresholds[level];
+    }
+    onLimitsChange({ ...limits, [period]: { ...limits[period], [metric]: thresholds } });
+  };
+
+  const inputValue = (period: UsagePeriod, metric: UsageMetric, level: keyof LimitThresholds) => {
+    const value = limits[period][metric]?.[level];
+    return value === undefined ? '' : String(value / (INPUT_SCALE[metric] ?? 1));
+  };
+
+  const inputClass = "w-20 bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500";
+
+  return (
+    <section className="w-full max-w-4xl mt-8 bg-slate-900 border border-slate-800 rounded-2xl p-6 flex flex-col gap-4">
+      <div className="flex items-center gap-3">
+        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex-1">Usage</h2>
+        <button
+          onClick={() => downloadBlob(exportUsageCsv(records), `gemini-usage-${new Date().toISOString().slice(0, 10)}.csv`)}
+          disabled={records.length === 0}
+          className="px-3 py-1 rounded-md text-xs font-semibold bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {PERIODS.map(({ id, label }) => (
+          <div key={id} className="bg-slate-950 border border-slate-800 rounded-xl p-4 flex flex-col gap-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{label}</span>
+              <span className="text-xs text-slate-500">
+                {totals[id].generations} {totals[id].generations === 1 ? 'generation' : 'generations'} · {totals[id].cachedChunks} cache hits
+              </span>
+            </div>
+            {USAGE_METRICS.map(metric => {
+              const used = totals[id][metric.id];
+              const { soft, hard } = limits[id][metric.id] ?? {};
+              const cap = hard ?? soft;
+              return (
+                <div key={metric.id} className="flex flex-col gap-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-slate-500">{metric.label}</span>
+                    <span className="text-slate-300">
+                      {formatUsageValue(metric.id, used)}
+                      {cap !== undefined && <span className="text-slate-500"> / {formatUsageValue(metric.id, cap)}</span>}
+                    </span>
+                  </div>
+                  {cap !== undefined && cap > 0 && (
+                    <div className="h-1 rounded-full bg-slate-800 overflow-hidden">
+                      <div
+                        className={`h-full ${hard !== undefined && used >= hard ? 'bg-red-500' : soft !== undefined && used >= soft ? 'bg-amber-500' : 'bg-blue-500'}`}
+                        style={{ width: `${Math.min(100, (used / cap) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <details className="text-xs text-slate-400">
+        <summary className="cursor-pointer select-none font-semibold uppercase tracking-wider">Limits</summary>
+        <p className="mt-2 text-slate-500">
+          Past a warning level generation goes ahead with a notice; a generation that would pass a limit is blocked. Leave a field empty for no limit.
+        </p>
+        <table className="mt-2 w-full">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-medium py-1">Metric</th>
+              {PERIODS.map(p => (
+                <th key={p.id} className="font-medium py-1" colSpan={2}>{p.id === 'day' ? 'Daily' : 'Monthly'} warn / limit</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {USAGE_METRICS.map(metric => (
+              <tr key={metric.id}>
+                <td className="py-1 pr-2">{INPUT_LABELS[metric.id] ?? metric.label}</td>
+                {PERIODS.flatMap(p => (['soft', 'hard'] as const).map(level => (
+                  <td key={`${p.id}-${level}`} className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={inputValue(p.id, metric.id, level)}
+                      onChange={(e) => setThreshold(p.id, metric.id, level, e.target.value)}
+                      placeholder={level === 'soft' ? 'warn' : 'limit'}
+                      className={inputClass}
+                    />
+                  </td>
+                )))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <details className="text-xs text-slate-400">
+        <summary className="cursor-pointer select-none font-semibold uppercase tracking-wider">Last {HISTORY_DAYS} days</summary>
+        <table className="mt-2 w-full">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-medium py-1">Day</th>
+              <th className="font-medium py-1 text-right">Generations</th>
+              {USAGE_METRICS.map(m => <th key={m.id} className="font-medium py-1 text-right">{m.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {days.map(({ day, totals: dayTotals }) => (
+              <tr key={day} className={dayTotals.generations === 0 ? 'text-slate-600' : 'text-slate-300'}>
+                <td className="py-1">{new Date(day).toLocaleDateString()}</td>
+                <td className="py-1 text-right">{dayTotals.generations}</td>
+                {USAGE_METRICS.map(m => (
+                  <td key={m.id} className="py-1 text-right">{formatUsageValue(m.id, dayTotals[m.id])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+
+      <p className="text-xs text-slate-500">
+        Tokens and cost are estimates from character counts and list prices; check the billing console for exact figures.
+      </p>
+    </section>
+  );
+};
+
+export default UsagePanel;
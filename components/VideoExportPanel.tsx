@@ -0,0 +1,156 @@
+import React, { useRef } from 'react';
+import { VIDEO_ASPECTS, VIDEO_RESOLUTIONS, VideoAspect, VideoFormat, VideoSettings, videoDimensions } from '../utils/videoExport';
+import { VISUALIZER_MODES, VisualizerMode } from '../utils/visualizer';
+
+interface VideoExportPanelProps {
+  /** Formats the browser can record; empty when video recording is unsupported. */
+  formats: VideoFormat[];
+  settings: VideoSettings;
+  /** False until there is a story to export. */
+  canExport: boolean;
+  hasCaptions: boolean;
+  backgroundName: string | null;
+  isExporting: boolean;
+  /** 0-1 fraction rendered, while exporting. */
+  progress: number | null;
+  onSettingsChange: (settings: VideoSettings) => void;
+  onBackgroundChange: (file: File | null) => void;
+  onExport: () => void;
+  onCancel: () => void;
+}
+
+const VideoExportPanel: React.FC<VideoExportPanelProps> = ({
+  formats, settings, canExport, hasCaptions, backgroundName, isExporting, progress,
+  onSettingsChange, onBackgroundChange, onExport, onCancel,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectClass = "bg-slate-800 text-slate-300 text-sm rounded-xl px-3 outline-none border border-slate-700 focus:border-blue-500 h-10 flex-1 min-w-0 disabled:opacity-40";
+  const disabled = !canExport || isExporting || formats.length === 0;
+  const update = (patch: Partial<VideoSettings>) => onSettingsChange({ ...settings, ...patch });
+  const { width, height } = videoDimensions(settings.aspect, settings.resolution);
+
+  if (formats.length === 0) {
+    return (
+      <div className="w-full flex flex-col gap-2">
+        <label className="text-xs text-slate-500 uppercase tracking-widest font-semibold">Video</label>
+        <p className="text-xs text-slate-500">This browser cannot record video.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <label className="text-xs text-slate-500 uppercase tracking-widest font-semibold">Video</label>
+      <div className="flex gap-2 w-full">
+        <select
+          value={settings.aspect}
+          onChange={(e) => update({ aspect: e.target.value as VideoAspect })}
+          disabled={isExporting}
+          className={selectClass}
+          title="Aspect ratio"
+        >
+          {VIDEO_ASPECTS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+        </select>
+        <select
+          value={settings.resolution}
+          onChange={(e) => update({ resolution: Number(e.target.value) })}
+          disabled={isExporting}
+          className={`${selectClass} flex-none w-24`}
+          title={`${width}×${height}`}
+        >
+          {VIDEO_RESOLUTIONS.map(r => <option key={r} value={r}>{r}p</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2 w-full">
+        <select
+          value={settings.mimeType}
+          onChange={(e) => update({ mimeType: e.target.value })}
+          disabled={isExporting}
+          className={selectClass}
+          title="Video format"
+        >
+          {formats.map(f => <option key={f.mimeType} value={f.mimeType}>{f.label}</option>)}
+        </select>
+        <select
+          value={settings.visualizer}
+          onChange={(e) => update({ visualizer: e.target.value as VisualizerMode })}
+          disabled={isExporting}
+          className={selectClass}
+          title="Visualizer"
+        >
+          {VISUALIZER_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onBackgroundChange(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isExporting}
+          className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40"
+        >
+          {backgroundName ? 'Replace background' : 'Background...'}
+        </button>
+        <span className="flex-1 truncate text-slate-500" title={backgroundName ?? undefined}>
+          {backgroundName ?? 'Gradient'}
+        </span>
+        {backgroundName && (
+          <button onClick={() => onBackgroundChange(null)} disabled={isExporting} className="px-1 text-slate-500 hover:text-red-400" title="Remove background">
+            ✕
+          </button>
+        )}
+      </div>
+      <label className={`flex items-center gap-2 text-xs ${hasCaptions ? 'text-slate-400' : 'text-slate-600'}`}>
+        <input
+          type="checkbox"
+          checked={settings.captions && hasCaptions}
+          onChange={(e) => update({ captions: e.target.checked })}
+          disabled={isExporting || !hasCaptions}
+        />
+        Burn in captions
+      </label>
+
+      {isExporting ? (
+        <div className="flex gap-2">
+          <div className="flex-1 h-10 rounded-xl bg-slate-800 relative overflow-hidden flex items-center justify-center text-sm font-bold text-blue-400">
+            <div className="absolute inset-y-0 left-0 bg-blue-600/30 transition-[width]" style={{ width: `${Math.round((progress ?? 0) * 100)}%` }} />
+            <span className="relative">Rendering {Math.round((progress ?? 0) * 100)}%...</span>
+          </div>
+          <button
+            onClick={onCancel}
+            className="px-3 h-10 rounded-xl text-sm font-bold bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onExport}
+          disabled={disabled}
+          className={`w-full h-10 rounded-xl font-bold text-sm transition-all ${
+            disabled
+              ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
+              : 'bg-slate-800 text-blue-400 hover:bg-slate-700 hover:text-blue-300 border border-slate-700/50 hover:border-blue-500/50'
+          }`}
+        >
+          Export video
+        </button>
+      )}
+      {isExporting && (
+        <p className="text-xs text-slate-500">Rendering runs in real time; keep this tab in the foreground.</p>
+      )}
+    </div>
+  );
+};
+
+export default VideoExportPanel;
@@ -1,78 +1,165 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  DEFAULT_VISUALIZER_THEME,
+  VisualizerMode,
+  VisualizerTheme,
+  computeWaveformPeaks,
+  createFrameRenderer,
+  renderWaveformLayer,
+} from '../utils/visualizer';
 
 interface VisualizerProps {
   analyser: AnalyserNode | null;
   isPlaying: boolean;
+  mode: VisualizerMode;
+  /** Audio drawn by the waveform overview. */
+  buffer?: AudioBuffer | null;
+  /** Playhead of the waveform overview, in seconds. */
+  position?: number;
+  /** Called with a time in seconds when the waveform overview is clicked. */
+  onSeek?: (time: number) => void;
+  theme?: Partial<VisualizerTheme>;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) => {
+// Seconds moved by the arrow keys on the waveform overview
+const KEY_SEEK_SECONDS = 5;
+
+const Visualizer: React.FC<VisualizerProps> = ({
+  analyser, isPlaying, mode, buffer = null, position = 0, onSeek, theme,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
+  // Canvas size in device pixels, following the element's layout size
+  const [size, setSize] = useState<{ width: number; height: number; dpr: number }>({ width: 0, height: 0, dpr: 1 });
+  // Live modes keep their last frame when playback stops; the canvas is only reset when this changes
+  const paintedRef = useRef<string>('');
+
+  const colors = useMemo<VisualizerTheme>(
+    () => ({ ...DEFAULT_VISUALIZER_THEME, ...theme }),
+    [theme?.background, theme?.primary, theme?.secondary, theme?.playhead, theme?.clip]
+  );
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !analyser) return;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const dpr = window.devicePixelRatio || 1;
+      // Exact device pixels where supported, so lines stay crisp at fractional scales
+      const box = entry.devicePixelContentBoxSize?.[0];
+      const width = box ? box.inlineSize : Math.round(entry.contentRect.width * dpr);
+      const height = box ? box.blockSize : Math.round(entry.contentRect.height * dpr);
+      setSize(current => (current.width === width && current.height === height && current.dpr === dpr ? current : { width, height, dpr }));
+    });
+    try {
+      observer.observe(canvas, { box: 'device-pixel-content-box' });
+    } catch {
+      observer.observe(canvas);
+    }
+    return () => observer.disconnect();
+  }, []);
 
+  // Live modes: analyser frames while playing
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const liveMode = mode === 'waveform' ? null : mode;
+    if (!canvas || !analyser || !liveMode || size.width === 0) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    // Setting the size clears the canvas, so only do it when it changed
+    if (canvas.width !== size.width || canvas.height !== size.height) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+    }
+    const render = createFrameRenderer(liveMode, ctx, analyser, colors, size.dpr);
+    const key = `${mode}|${size.width}x${size.height}|${Object.values(colors).join()}`;
+    if (paintedRef.current !== key) {
+      render(true);
+      paintedRef.current = key;
+    }
+    if (!isPlaying) return;
 
     const draw = () => {
-      if (!isPlaying) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        return;
-      }
-
+      render();
       animationRef.current = requestAnimationFrame(draw);
-
-      analyser.getByteFrequencyData(dataArray);
-
-      ctx.fillStyle = '#0f172a'; // Match background to clear
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      const barWidth = (canvas.width / bufferLength) * 2.5;
-      let barHeight;
-      let x = 0;
-
-      for (let i = 0; i < bufferLength; i++) {
-        barHeight = dataArray[i] / 2; // Scale down a bit
-
-        // Create gradient
-        const gradient = ctx.createLinearGradient(0, canvas.height, 0, 0);
-        gradient.addColorStop(0, '#3b82f6'); // Blue 500
-        gradient.addColorStop(1, '#8b5cf6'); // Violet 500
-
-        ctx.fillStyle = gradient;
-        ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
-
-        x += barWidth + 1;
-      }
     };
-
-    if (isPlaying) {
-      draw();
-    } else {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    }
-
+    draw();
     return () => {
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [analyser, isPlaying]);
+  }, [analyser, isPlaying, mode, size, colors]);
+
+  // Waveform overview: the whole buffer, drawn once per size, with the played part highlighted
+  const layers = useMemo(() => {
+    if (mode !== 'waveform' || !buffer || size.width === 0) return null;
+    const peaks = computeWaveformPeaks(buffer, size.width);
+    return {
+      unplayed: renderWaveformLayer(peaks, size.width, size.height, colors.secondary, colors.clip),
+      played: renderWaveformLayer(peaks, size.width, size.height, colors.primary, colors.clip),
+    };
+  }, [mode, buffer, size, colors]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || mode !== 'waveform' || size.width === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    if (canvas.width !== size.width || canvas.height !== size.height) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+    }
+    paintedRef.current = '';
+
+    ctx.fillStyle = colors.background;
+    ctx.fillRect(0, 0, size.width, size.height);
+    if (!layers || !buffer) {
+      ctx.fillStyle = colors.secondary;
+      ctx.fillRect(0, Math.floor(size.height / 2), size.width, size.dpr);
+      return;
+    }
+
+    const playheadX = Math.round(Math.min(1, position / buffer.duration) * size.width);
+    ctx.drawImage(layers.unplayed, 0, 0);
+    if (playheadX > 0) {
+      ctx.drawImage(layers.played, 0, 0, playheadX, size.height, 0, 0, playheadX, size.height);
+    }
+    ctx.fillStyle = colors.playhead;
+    ctx.fillRect(Math.min(playheadX, size.width - size.dpr), 0, size.dpr, size.height);
+  }, [mode, layers, buffer, position, size, colors]);
+
+  const canSeek = mode === 'waveform' && !!buffer && !!onSeek;
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!canSeek) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek!(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * buffer!.duration);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    // Modified arrows (Shift jumps paragraphs) are left to the global shortcuts
+    if (!canSeek || e.shiftKey || e.metaKey || e.ctrlKey || e.altKey) return;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Handled here, so the global transport shortcuts must not seek again
+      e.preventDefault();
+      e.stopPropagation();
+      onSeek!(Math.min(buffer!.duration, Math.max(0, position + (e.key === 'ArrowLeft' ? -KEY_SEEK_SECONDS : KEY_SEEK_SECONDS))));
+    }
+  };
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={600} 
-      height={100} 
-      className="w-full h-24 rounded-lg bg-slate-900/50"
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={canSeek ? 0 : undefined}
+      role={canSeek ? 'slider' : undefined}
+      aria-label={canSeek ? 'Seek' : undefined}
+      aria-valuemin={canSeek ? 0 : undefined}
+      aria-valuemax={canSeek ? Math.round(buffer!.duration) : undefined}
+      aria-valuenow={canSeek ? Math.round(position) : undefined}
+      className={`w-full h-24 rounded-lg bg-slate-900/50 ${canSeek ? 'cursor-pointer' : ''}`}
     />
   );
 };
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { VoiceName } from '../types';
+import { getVoiceInfo, searchVoices } from '../utils/voiceCatalog';
+
+interface VoicePickerProps {
+  voices: VoiceName[];
+  selected: VoiceName;
+  favorites: VoiceName[];
+  /** Voice whose audition is being synthesized or played. */
+  auditioning: VoiceName | null;
+  /** Voice currently heard in an A/B comparison. */
+  comparing: VoiceName | null;
+  disabled?: boolean;
+  onSelect: (voice: VoiceName) => void;
+  onToggleFavorite: (voice: VoiceName) => void;
+  onAudition: (voice: VoiceName) => void;
+  onCompare: (a: VoiceName, b: VoiceName) => void;
+}
+
+const PITCH_LABELS = { low: 'Low', mid: 'Mid', high: 'High' };
+
+const VoicePicker: React.FC<VoicePickerProps> = ({
+  voices, selected, favorites, auditioning, comparing, disabled, onSelect, onToggleFavorite, onAudition, onCompare,
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [compareWith, setCompareWith] = useState<VoiceName>(voices.find(v => v !== selected) ?? selected);
+
+  // Favourites first, then catalog order
+  const visible = useMemo(() => {
+    const pool = favoritesOnly ? voices.filter(v => favorites.includes(v)) : voices;
+    const matches = searchVoices(pool, query);
+    return [...matches.filter(v => favorites.includes(v)), ...matches.filter(v => !favorites.includes(v))];
+  }, [voices, favorites, favoritesOnly, query]);
+
+  const selectClass = "bg-slate-950 border border-slate-800 rounded-md px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search: warm, low, audiobooks..."
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 h-9 text-sm text-slate-300 outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={() => setFavoritesOnly(v => !v)}
+          className={`px-3 h-9 rounded-lg border text-xs font-medium transition-colors ${
+            favoritesOnly ? 'bg-amber-500/20 border-amber-500 text-amber-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+          }`}
+          title="Show only starred voices"
+        >
+          ★ Favourites
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-72 overflow-y-auto pr-1">
+        {visible.map((v) => {
+          const info = getVoiceInfo(v);
+          const isFavorite = favorites.includes(v);
+          const isSelected = selected === v;
+          return (
+            <div
+              key={v}
+              className={`relative flex flex-col rounded-lg border transition-all duration-200 ${
+                isSelected
+                  ? 'bg-blue-600/20 border-blue-500'
+                  : comparing === v
+                    ? 'bg-violet-600/20 border-violet-500'
+                    : 'bg-slate-800 border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(v)}
+                disabled={disabled}
+                className="px-3 pt-2 pb-1 text-left disabled:cursor-not-allowed"
+                title={`Suits ${info.uses.join(', ')}`}
+              >
+                <span className={`block text-sm font-medium ${isSelected ? 'text-blue-400' : 'text-slate-300'}`}>{v}</span>
+                <span className="block text-xs text-slate-500">{info.character} · {PITCH_LABELS[info.pitch]}</span>
+                <span className="block text-[11px] text-slate-600 truncate">{info.uses.join(', ')}</span>
+              </button>
+              <div className="flex items-center justify-end gap-1 px-2 pb-1">
+                <button
+                  onClick={() => onAudition(v)}
+                  disabled={auditioning !== null}
+                  className="px-1 text-xs text-slate-500 hover:text-blue-400 disabled:opacity-40"
+                  title="Audition with your text"
+                >
+                  {auditioning === v ? '…' : '▶'}
+                </button>
+                <button
+                  onClick={() => onToggleFavorite(v)}
+                  className={`px-1 text-sm ${isFavorite ? 'text-amber-400' : 'text-slate-600 hover:text-amber-300'}`}
+                  title={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+                >
+                  {isFavorite ? '★' : '☆'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {visible.length === 0 && (
+          <p className="col-span-full text-xs text-slate-500">
+            {favoritesOnly && favorites.length === 0 ? 'Star voices to keep them here.' : 'No voices match.'}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+        <span className="font-semibold uppercase tracking-wider">A/B</span>
+        <span className="text-slate-300">{selected}</span>
+        <span>vs</span>
+        <select value={compareWith} onChange={(e) => setCompareWith(e.target.value as VoiceName)} className={selectClass}>
+          {voices.filter(v => v !== selected).map(v => <option key={v} value={v}>{favorites.includes(v) ? `★ ${v}` : v}</option>)}
+        </select>
+        <button
+          onClick={() => onCompare(selected, compareWith === selected ? voices.find(v => v !== selected)! : compareWith)}
+          disabled={auditioning !== null || comparing !== null}
+          className="px-2 py-1 rounded-md border border-slate-700 text-slate-400 hover:text-blue-400 hover:border-blue-500/50 disabled:opacity-40"
+          title="Play the same sentence in both voices, one after the other"
+        >
+          Compare
+        </button>
+        {comparing && <span className="text-violet-300">Now playing: {comparing}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default VoicePicker;
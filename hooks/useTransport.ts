@@ -0,0 +1,265 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { createPlaybackScheduler, PlaybackScheduler } from '../utils/playbackScheduler';
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+export interface Transport {
+  isPlaying: boolean;
+  /** True while segments of a generation in progress are being played. */
+  isStreaming: boolean;
+  /** Current position in seconds. */
+  position: number;
+  /** Duration of the loaded buffer in seconds (0 while nothing is loaded). */
+  duration: number;
+  rate: number;
+  /**
+   * Loads a buffer for playback. Playback in progress, streamed or not, continues
+   * on it at the same position, so a processed version can replace what is playing.
+   */
+  load: (buffer: AudioBuffer | null) => void;
+  /** Loads a buffer and starts playing it from `offset`. */
+  playBuffer: (buffer: AudioBuffer, offset?: number) => void;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  stop: () => void;
+  seek: (time: number) => void;
+  skip: (delta: number) => void;
+  setRate: (rate: number) => void;
+  /** Stops playback and returns a scheduler for segments of a new generation. */
+  beginStream: () => PlaybackScheduler;
+}
+
+/**
+ * Playback transport around AudioBufferSourceNode: play/pause at the exact offset,
+ * seeking, playback rate and a continuously updated position. Also plays segments
+ * streamed in during generation and hands over to the full buffer once it exists.
+ *
+ * Sources are connected to `destinationRef` (e.g. an AnalyserNode).
+ */
+export function useTransport(
+  audioContextRef: MutableRefObject<AudioContext | null>,
+  destinationRef: MutableRefObject<AudioNode | null>,
+): Transport {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [position, setPosition] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(0);
+  const [rate, setRateState] = useState<number>(1);
+
+  const bufferRef = useRef<AudioBuffer | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const schedulerRef = useRef<PlaybackScheduler | null>(null);
+  // Buffer offset at `startedAtRef` (context time); while paused, the resume offset
+  const offsetRef = useRef<number>(0);
+  const startedAtRef = useRef<number>(0);
+  const rateRef = useRef<number>(1);
+
+  const currentPosition = useCallback((): number => {
+    const ctx = audioContextRef.current;
+    if (schedulerRef.current) return schedulerRef.current.getPosition();
+    if (sourceRef.current && ctx) {
+      return offsetRef.current + (ctx.currentTime - startedAtRef.current) * rateRef.current;
+    }
+    return offsetRef.current;
+  }, [audioContextRef]);
+
+  const stopSources = useCallback(() => {
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
+    setIsStreaming(false);
+
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      try {
+        sourceRef.current.stop();
+      } catch (e) { /* ignore if already stopped */ }
+      sourceRef.current = null;
+    }
+  }, []);
+
+  const startAt = useCallback((offset: number) => {
+    const ctx = audioContextRef.current;
+    const destination = destinationRef.current;
+    const buffer = bufferRef.current;
+    if (!ctx || !destination || !buffer) return;
+
+    stopSources();
+
+    // Resume context if suspended (browser policy)
+    if (ctx.state === 'suspended') {
+      ctx.resume();
+    }
+
+    const start = Math.min(Math.max(0, offset), buffer.duration);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rateRef.current;
+    source.connect(destination);
+
+    source.onended = () => {
+      if (sourceRef.current !== source) return;
+      // Reached the end: rewind so the next Play starts from the beginning
+      sourceRef.current = null;
+      offsetRef.current = 0;
+      setPosition(0);
+      setIsPlaying(false);
+    };
+
+    source.start(0, start);
+    sourceRef.current = source;
+    offsetRef.current = start;
+    startedAtRef.current = ctx.currentTime;
+    setPosition(start);
+    setIsPlaying(true);
+  }, [audioContextRef, destinationRef, stopSources]);
+
+  const load = useCallback((buffer: AudioBuffer | null) => {
+    const isActive = !!(sourceRef.current || schedulerRef.current);
+    const resumeAt = currentPosition();
+    bufferRef.current = buffer;
+    setDuration(buffer?.duration ?? 0);
+    if (buffer && isActive) {
+      // The new buffer may be processed (mastered, mixed), so continue on it
+      startAt(resumeAt);
+      return;
+    }
+    if (!schedulerRef.current) {
+      stopSources();
+      offsetRef.current = buffer ? Math.min(offsetRef.current, buffer.duration) : 0;
+      setPosition(offsetRef.current);
+      setIsPlaying(false);
+    }
+  }, [currentPosition, startAt, stopSources]);
+
+  const playBuffer = useCallback((buffer: AudioBuffer, offset: number = 0) => {
+    bufferRef.current = buffer;
+    setDuration(buffer.duration);
+    startAt(offset);
+  }, [startAt]);
+
+  const play = useCallback(() => {
+    const buffer = bufferRef.current;
+    if (!buffer || sourceRef.current || schedulerRef.current) return;
+    startAt(offsetRef.current >= buffer.duration ? 0 : offsetRef.current);
+  }, [startAt]);
+
+  const pause = useCallback(() => {
+    // A stream can only be paused once the full buffer exists to resume from
+    if (schedulerRef.current && !bufferRef.current) return;
+    if (!sourceRef.current && !schedulerRef.current) return;
+
+    const paused = currentPosition();
+    stopSources();
+    offsetRef.current = paused;
+    setPosition(paused);
+    setIsPlaying(false);
+  }, [currentPosition, stopSources]);
+
+  const toggle = useCallback(() => {
+    if (sourceRef.current || schedulerRef.current) pause();
+    else play();
+  }, [pause, play]);
+
+  const stop = useCallback(() => {
+    stopSources();
+    offsetRef.current = 0;
+    setPosition(0);
+    setIsPlaying(false);
+  }, [stopSources]);
+
+  const seek = useCallback((time: number) => {
+    const buffer = bufferRef.current;
+    if (!buffer) return;
+
+    const target = Math.min(Math.max(0, time), buffer.duration);
+    if (sourceRef.current || schedulerRef.current) {
+      startAt(target);
+    } else {
+      offsetRef.current = target;
+      setPosition(target);
+    }
+  }, [startAt]);
+
+  const skip = useCallback((delta: number) => {
+    seek(currentPosition() + delta);
+  }, [seek, currentPosition]);
+
+  const setRate = useCallback((next: number) => {
+    const ctx = audioContextRef.current;
+    if (sourceRef.current && ctx) {
+      // Rebase so positions before the change keep the old rate
+      offsetRef.current = currentPosition();
+      startedAtRef.current = ctx.currentTime;
+      sourceRef.current.playbackRate.value = next;
+    }
+    rateRef.current = next;
+    setRateState(next);
+  }, [audioContextRef, currentPosition]);
+
+  const beginStream = useCallback((): PlaybackScheduler => {
+    const ctx = audioContextRef.current!;
+    const destination = destinationRef.current!;
+
+    stopSources();
+    bufferRef.current = null;
+    offsetRef.current = 0;
+    setDuration(0);
+    setPosition(0);
+    setIsPlaying(false);
+
+    // Resume context if suspended (browser policy)
+    if (ctx.state === 'suspended') {
+      ctx.resume();
+    }
+
+    const scheduler = createPlaybackScheduler(ctx, destination, () => {
+      if (schedulerRef.current !== scheduler) return;
+      schedulerRef.current = null;
+      offsetRef.current = 0;
+      setIsStreaming(false);
+      setPosition(0);
+      setIsPlaying(false);
+    });
+    schedulerRef.current = scheduler;
+    setIsStreaming(true);
+
+    return {
+      ...scheduler,
+      schedule: (buffer, startTime) => {
+        scheduler.schedule(buffer, startTime);
+        if (schedulerRef.current === scheduler) setIsPlaying(true);
+      },
+    };
+  }, [audioContextRef, destinationRef, stopSources]);
+
+  // Keep the position display moving while audio plays
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    const tick = () => {
+      setPosition(currentPosition());
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, currentPosition]);
+
+  return {
+    isPlaying,
+    isStreaming,
+    position,
+    duration,
+    rate,
+    load,
+    playBuffer,
+    play,
+    pause,
+    toggle,
+    stop,
+    seek,
+    skip,
+    setRate,
+    beginStream,
+  };
+}
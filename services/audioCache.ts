@@ -0,0 +1,108 @@
+import { SpeechRequest } from "../types";
+import { STORES, iterateCursor, requestToPromise, withStore } from "../utils/indexedDb";
+
+/**
+ * Content-addressed cache of synthesized PCM, stored in IndexedDB.
+ *
+ * Entries are keyed by a SHA-256 hash of everything that affects the audio
+ * (normalized text, voices, style direction, provider and model), so identical requests are served
+ * locally instead of calling the API again. Least recently used entries are
+ * evicted once the cache grows beyond its size limit.
+ */
+
+// Upper bound for the total size of cached PCM.
+export const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  pcm: Uint8Array;
+  sampleRate: number;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface CachedAudio {
+  pcm: Uint8Array;
+  sampleRate: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const normalizeText = (text: string): string => text.normalize("NFC").replace(/\s+/g, " ").trim();
+
+/**
+ * Computes the cache key for a speech request.
+ */
+export const computeCacheKey = async (request: SpeechRequest, providerId: string, model: string): Promise<string> => {
+  const material = JSON.stringify({
+    text: normalizeText(request.text),
+    voice: request.voice,
+    speakers: request.speakers ?? null,
+    // Only present when set, so unstyled requests keep their existing keys
+    ...(request.style ? { style: request.style.trim() } : {}),
+    providerId,
+    model,
+  });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Looks up cached audio and marks the entry as recently used.
+ */
+export const getCachedAudio = async (key: string): Promise<CachedAudio | null> => {
+  return withStore(STORES.audioCache, "readwrite", async (store) => {
+    const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+    if (!entry) return null;
+
+    store.put({ ...entry, lastAccess: Date.now() });
+    return { pcm: entry.pcm, sampleRate: entry.sampleRate };
+  });
+};
+
+/**
+ * Stores audio in the cache and evicts least recently used entries beyond the size limit.
+ */
+export const putCachedAudio = async (key: string, pcm: Uint8Array, sampleRate: number): Promise<void> => {
+  const now = Date.now();
+  const entry: CacheEntry = { key, pcm, sampleRate, size: pcm.byteLength, createdAt: now, lastAccess: now };
+
+  await withStore(STORES.audioCache, "readwrite", (store) => requestToPromise(store.put(entry)));
+  await evictToLimit(MAX_CACHE_BYTES);
+};
+
+/**
+ * Deletes least recently used entries until the cache holds at most `maxBytes`.
+ */
+const evictToLimit = async (maxBytes: number): Promise<void> => {
+  const { bytes } = await getCacheStats();
+  if (bytes <= maxBytes) return;
+
+  let excess = bytes - maxBytes;
+  await withStore(STORES.audioCache, "readwrite", (store) =>
+    iterateCursor(store.index("lastAccess").openCursor(), (cursor) => {
+      excess -= (cursor.value as CacheEntry).size;
+      cursor.delete();
+      return excess > 0;
+    })
+  );
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const stats: CacheStats = { entries: 0, bytes: 0 };
+  await withStore(STORES.audioCache, "readonly", (store) =>
+    iterateCursor(store.openCursor(), (cursor) => {
+      stats.entries++;
+      stats.bytes += (cursor.value as CacheEntry).size;
+    })
+  );
+  return stats;
+};
+
+export const clearAudioCache = async (): Promise<void> => {
+  await withStore(STORES.audioCache, "readwrite", (store) => requestToPromise(store.clear()));
+};
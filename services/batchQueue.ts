@@ -0,0 +1,294 @@
+import { StyleConfig, SynthesisProgress, TTSProvider, VoiceName } from "../types";
+import { STORES, iterateCursor, openDatabase, requestToPromise, transactionDone, withStore } from "../utils/indexedDb";
+import { AudioFormat } from "../utils/audioUtils";
+import { ExportOptions, exportAudioBuffer } from "../utils/audioExport";
+import { LexiconEntry } from "../utils/lexicon";
+import { sleep } from "../utils/retry";
+import { createZip, ZipFile } from "../utils/zip";
+import { safeFileName } from "../utils/audiobook";
+import { synthesizeStory } from "./storySynthesis";
+import { getStoryKey } from "./castingStore";
+import { deriveTitle } from "./historyStore";
+import { TTSError, TTSErrorKind, formatErrorMessage, toTTSError } from "./ttsErrors";
+
+/**
+ * Queue of stories generated unattended, persisted in IndexedDB so a reload picks
+ * up where it left off. Each item is synthesized and encoded on its own; the
+ * encoded file is stored next to the queue until it is downloaded or removed.
+ */
+
+export type BatchStatus = "queued" | "running" | "done" | "failed";
+
+export interface BatchItem {
+  id: string;
+  title: string;
+  text: string;
+  voice: VoiceName;
+  style?: StyleConfig;
+  /** MIME type of the output format. */
+  format: string;
+  status: BatchStatus;
+  /** User-facing message of the last failure. */
+  error?: string;
+  errorKind?: TTSErrorKind;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Duration of the result in seconds, once done. */
+  duration?: number;
+  /** Size of the encoded result in bytes, once done. */
+  size?: number;
+}
+
+export type NewBatchItem = Pick<BatchItem, "text" | "voice" | "style" | "format"> & { title?: string };
+
+interface BatchOutput {
+  id: string;
+  data: Uint8Array;
+  mimeType: string;
+  ext: string;
+}
+
+// How long to hold the whole queue after a rate limit without a suggested delay
+const RATE_LIMIT_PAUSE_MS = 60_000;
+// Failures that would fail every other item too
+const FATAL_KINDS: TTSErrorKind[] = ["quota", "invalid-key"];
+
+/** Splits pasted text into stories at lines holding only `---`. */
+export const splitBatchInput = (input: string): string[] =>
+  input.split(/^\s*-{3,}\s*$/m).map(text => text.trim()).filter(Boolean);
+
+/**
+ * Lists the queue in the order items were added.
+ */
+export const listBatchItems = async (): Promise<BatchItem[]> => {
+  const items: BatchItem[] = [];
+  await withStore(STORES.batchItems, "readonly", (store) =>
+    iterateCursor(store.index("createdAt").openCursor(), (cursor) => {
+      items.push(cursor.value as BatchItem);
+    })
+  );
+  return items;
+};
+
+export const addBatchItems = async (newItems: NewBatchItem[]): Promise<BatchItem[]> => {
+  const now = Date.now();
+  const items: BatchItem[] = newItems.map((item, i) => ({
+    id: crypto.randomUUID(),
+    title: item.title?.trim() || deriveTitle(item.text),
+    text: item.text,
+    voice: item.voice,
+    style: item.style,
+    format: item.format,
+    status: "queued",
+    attempts: 0,
+    // Distinct timestamps keep the paste order
+    createdAt: now + i,
+    updatedAt: now,
+  }));
+
+  await withStore(STORES.batchItems, "readwrite", (store) => {
+    items.forEach(item => store.put(item));
+  });
+  return items;
+};
+
+export const updateBatchItem = async (id: string, changes: Partial<Omit<BatchItem, "id">>): Promise<BatchItem> => {
+  return withStore(STORES.batchItems, "readwrite", async (store) => {
+    const item = await requestToPromise<BatchItem | undefined>(store.get(id));
+    if (!item) {
+      throw new Error("Batch item not found.");
+    }
+    const updated = { ...item, ...changes, updatedAt: Date.now() };
+    store.put(updated);
+    return updated;
+  });
+};
+
+export const removeBatchItems = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.batchItems, STORES.batchOutputs], "readwrite");
+  ids.forEach(id => {
+    tx.objectStore(STORES.batchItems).delete(id);
+    tx.objectStore(STORES.batchOutputs).delete(id);
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Puts items that were running when the page was closed back in the queue.
+ * @returns How many items were interrupted.
+ */
+export const requeueInterrupted = async (): Promise<number> => {
+  const items = await listBatchItems();
+  const interrupted = items.filter(item => item.status === "running");
+  await Promise.all(interrupted.map(item => updateBatchItem(item.id, { status: "queued" })));
+  return interrupted.length;
+};
+
+export const loadBatchOutput = async (id: string): Promise<Blob | null> => {
+  const output = await withStore(STORES.batchOutputs, "readonly", (store) =>
+    requestToPromise<BatchOutput | undefined>(store.get(id))
+  );
+  return output ? new Blob([output.data], { type: output.mimeType }) : null;
+};
+
+/**
+ * Bundles the results of all finished items into one ZIP, numbered in queue order.
+ */
+export const exportBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const done = items.filter(item => item.status === "done");
+  const digits = Math.max(2, String(done.length).length);
+  const files: ZipFile[] = [];
+
+  for (const [i, item] of done.entries()) {
+    const output = await withStore(STORES.batchOutputs, "readonly", (store) =>
+      requestToPromise<BatchOutput | undefined>(store.get(item.id))
+    );
+    if (!output) continue;
+    const name = safeFileName(item.title) || `Story ${i + 1}`;
+    files.push({ name: `${String(i + 1).padStart(digits, "0")} - ${name}.${output.ext}`, data: output.data });
+  }
+
+  if (files.length === 0) {
+    throw new Error("There are no finished stories to download.");
+  }
+  return createZip(files);
+};
+
+export interface BatchRunOptions {
+  ctx: AudioContext;
+  provider: TTSProvider;
+  model: string;
+  /** TTS requests in flight at once, across all items. */
+  concurrency: number;
+  /** Formats items can be encoded in; unknown formats fall back to the first. */
+  formats: AudioFormat[];
+  exportOptions?: ExportOptions;
+  lexicon?: LexiconEntry[];
+  signal: AbortSignal;
+  /** Called whenever an item's status changes. */
+  onItemChange: (item: BatchItem) => void;
+  /** Called when the queue holds off after a rate limit (with the time it resumes), and with null after. */
+  onPause?: (until: number | null) => void;
+  /** Called before an item starts; throwing stops the run and leaves the item queued. */
+  beforeItem?: (item: BatchItem) => void;
+  /** Receives the provider usage of each item once it finished, failed or was stopped. */
+  onUsage?: (item: BatchItem, progress: SynthesisProgress, outcome: "completed" | "failed" | "cancelled") => void;
+}
+
+/**
+ * Works through the queued items until none are left or `signal` is aborted.
+ * Items added while the queue runs are picked up too. A rate limit holds every
+ * worker until the suggested delay has passed; a quota or key failure stops the
+ * run, since every other item would fail the same way.
+ * @throws The error that stopped the run early.
+ */
+export const runBatch = async (options: BatchRunOptions): Promise<void> => {
+  const { ctx, provider, model, concurrency, formats, exportOptions, lexicon = [], signal, onItemChange, onPause, beforeItem, onUsage } = options;
+  const claimed = new Set<string>();
+  let pausedUntil = 0;
+  let fatal: TTSError | null = null;
+
+  const pause = (ms: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    onPause?.(pausedUntil);
+  };
+
+  const claimNext = async (): Promise<BatchItem | undefined> => {
+    const items = await listBatchItems();
+    // Found and claimed without an await in between, so two workers never take the same item
+    const item = items.find(candidate => candidate.status === "queued" && !claimed.has(candidate.id));
+    if (item) claimed.add(item.id);
+    return item;
+  };
+
+  const runItem = async (item: BatchItem): Promise<void> => {
+    let usage: SynthesisProgress | null = null;
+    onItemChange(await updateBatchItem(item.id, {
+      status: "running",
+      attempts: item.attempts + 1,
+      error: undefined,
+      errorKind: undefined,
+    }));
+
+    try {
+      // Checked before synthesizing, so an item that cannot be saved is not billed
+      const format = formats.find(f => f.mimeType === item.format) ?? formats[0];
+      if (!format) {
+        throw new Error("No export format is available to save this story.");
+      }
+      const { buffer } = await synthesizeStory({ text: item.text, voice: item.voice, mode: "narration", style: item.style }, ctx, {
+        provider,
+        model,
+        // Each worker sends one request at a time, so `concurrency` bounds the whole batch
+        concurrency: 1,
+        streaming: false,
+        lexicon,
+        project: getStoryKey(item.text),
+        signal,
+        onProgress: (progress) => { usage = progress; },
+        onRetry: (error, _attempt, delayMs) => {
+          if (error.kind === "rate-limit") pause(delayMs);
+        },
+      });
+
+      // The editor's WAV tags and paragraph cues belong to another story
+      const blob = await exportAudioBuffer(buffer, format, {
+        ...exportOptions,
+        wav: { ...exportOptions?.wav, metadata: { title: item.title, artist: `Gemini Storyteller (${item.voice})` }, cuePoints: [] },
+        onProgress: undefined,
+      });
+      const output: BatchOutput = { id: item.id, data: new Uint8Array(await blob.arrayBuffer()), mimeType: format.mimeType, ext: format.ext };
+      await withStore(STORES.batchOutputs, "readwrite", (store) => {
+        store.put(output);
+      });
+
+      onItemChange(await updateBatchItem(item.id, { status: "done", duration: buffer.duration, size: output.data.byteLength }));
+      if (usage) onUsage?.(item, usage, "completed");
+    } catch (error) {
+      if (usage) onUsage?.(item, usage, signal.aborted ? "cancelled" : "failed");
+      if (signal.aborted) {
+        onItemChange(await updateBatchItem(item.id, { status: "queued" }));
+        return;
+      }
+      const typed = toTTSError(error);
+      if (FATAL_KINDS.includes(typed.kind)) fatal = typed;
+      if (typed.kind === "rate-limit") pause(typed.retryAfterMs ?? RATE_LIMIT_PAUSE_MS);
+      onItemChange(await updateBatchItem(item.id, {
+        status: "failed",
+        error: formatErrorMessage(error, "Generation failed."),
+        errorKind: typed.kind,
+      }));
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (!signal.aborted && !fatal) {
+      const wait = pausedUntil - Date.now();
+      if (wait > 0) {
+        await sleep(wait, signal);
+        onPause?.(null);
+      }
+      const item = await claimNext();
+      if (!item) return;
+      try {
+        beforeItem?.(item);
+      } catch (error) {
+        fatal = toTTSError(error);
+        return;
+      }
+      await runItem(item);
+      // A failed item the user puts back in the queue is taken again
+      claimed.delete(item.id);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  } catch (error) {
+    // Aborting interrupts a wait with the abort reason; that is not a failure
+    if (!signal.aborted) throw error;
+  }
+  if (fatal) throw fatal;
+};
@@ -0,0 +1,31 @@
+import { VoiceCasting } from "../types";
+import { hashString } from "../utils/hash";
+
+const STORAGE_PREFIX = "storyteller.casting.";
+
+/**
+ * Derives a stable key for a story from its first non-empty line (usually the
+ * title or opening line), so casting survives edits further down the script.
+ */
+export const getStoryKey = (text: string): string => {
+  const firstLine = text.split("\n").find(line => line.trim()) ?? "";
+  return hashString(firstLine.trim());
+};
+
+export const loadCasting = (storyKey: string): VoiceCasting => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + storyKey);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn("Failed to load casting:", error);
+    return {};
+  }
+};
+
+export const saveCasting = (storyKey: string, casting: VoiceCasting): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + storyKey, JSON.stringify(casting));
+  } catch (error) {
+    console.warn("Failed to save casting:", error);
+  }
+};
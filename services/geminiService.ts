@@ -1,33 +1,141 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { VoiceName } from "../types";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality, SpeechConfig } from "@google/genai";
+import { SpeechRequest, SynthesizeOptions, TTSProvider } from "../types";
+import { decodeBase64 } from "../utils/audioUtils";
+import { VOICE_NAMES } from "../utils/voiceCatalog";
+import { TTSError, toTTSError } from "./ttsErrors";
 
-// Initialize the Gemini AI client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const TTS_MODELS = ["gemini-2.5-flash-preview-tts", "gemini-2.5-pro-preview-tts"];
 
-export const generateSpeech = async (text: string, voice: VoiceName): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
-        },
+// The Gemini AI client is created on first use so the app can run without a key
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new TTSError("invalid-key", "Gemini API key is not configured. Set GEMINI_API_KEY or use the offline provider.");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const buildSpeechConfig = (request: SpeechRequest): SpeechConfig => {
+  if (request.speakers && request.speakers.length > 1) {
+    return {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: request.speakers.map(({ speaker, voice }) => ({
+          speaker,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        })),
       },
-    });
+    };
+  }
+
+  return {
+    voiceConfig: {
+      prebuiltVoiceConfig: { voiceName: request.voice },
+    },
+  };
+};
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+// Style direction goes ahead of the script as an instruction, so it is not spoken
+const buildPrompt = (request: SpeechRequest): string => {
+  const direction = request.style?.trim().replace(/[\s.:]+$/, "");
+  if (request.speakers && request.speakers.length > 1) {
+    const names = request.speakers.map(s => s.speaker).join(" and ");
+    const instruction = `TTS the following conversation between ${names}`;
+    return direction ? `${instruction}. ${direction}:\n${request.text}` : `${instruction}:\n${request.text}`;
+  }
+  return direction ? `${direction}:\n${request.text}` : request.text;
+};
 
-    if (!base64Audio) {
-      throw new Error("No audio data received from Gemini API.");
-    }
+const buildParameters = (request: SpeechRequest, { model, signal }: SynthesizeOptions) => ({
+  model,
+  contents: [{ parts: [{ text: buildPrompt(request) }] }],
+  config: {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: buildSpeechConfig(request),
+    abortSignal: signal,
+  },
+});
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/** Throws a `blocked` error when the prompt or the answer was refused by the safety filters. */
+const checkBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new TTSError("blocked", `The request was blocked (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new TTSError("blocked", `The response was blocked (${finishReason}).`);
+  }
+};
+
+export const generateSpeech = async (request: SpeechRequest, options: SynthesizeOptions): Promise<Uint8Array> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await getClient().models.generateContent(buildParameters(request, options));
+  } catch (error) {
+    throw toTTSError(error);
+  }
+
+  checkBlocked(response);
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new TTSError("empty-audio", "No audio data received from Gemini API.");
+  }
+
+  return decodeBase64(base64Audio);
+};
+
+/**
+ * Streaming variant of `generateSpeech`. Yields PCM pieces as the model produces
+ * them, so playback can begin before the whole chunk is ready.
+ */
+export async function* generateSpeechStream(request: SpeechRequest, options: SynthesizeOptions): AsyncGenerator<Uint8Array> {
+  let receivedAudio = false;
+
+  try {
+    const stream = await getClient().models.generateContentStream(buildParameters(request, options));
 
-    return base64Audio;
+    for await (const response of stream) {
+      checkBlocked(response);
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          receivedAudio = true;
+          yield decodeBase64(part.inlineData.data);
+        }
+      }
+    }
   } catch (error) {
-    console.error("Error generating speech:", error);
-    throw error;
+    throw toTTSError(error);
+  }
+
+  if (!receivedAudio) {
+    throw new TTSError("empty-audio", "No audio data received from Gemini API.");
   }
+}
+
+export const geminiProvider: TTSProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  models: TTS_MODELS,
+  defaultModel: TTS_MODELS[0],
+  capabilities: {
+    multiSpeaker: true,
+    maxSpeakers: 2,
+    streaming: true,
+    sampleRate: 24000,
+  },
+  isConfigured: () => Boolean(process.env.API_KEY),
+  listVoices: () => VOICE_NAMES,
+  synthesize: generateSpeech,
+  synthesizeStream: generateSpeechStream,
 };
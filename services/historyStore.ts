@@ -0,0 +1,149 @@
+import { StoryMode, StyleConfig, TimedSegment, VoiceName } from "../types";
+import { STORES, iterateCursor, openDatabase, requestToPromise, transactionDone, withStore } from "../utils/indexedDb";
+import { audioBufferToPcm16, decodeAudioData } from "../utils/audioUtils";
+
+/**
+ * Library of past generations, persisted in IndexedDB so they survive reloads.
+ */
+
+export interface HistoryEntry {
+  id: string;
+  title: string;
+  text: string;
+  voice: VoiceName;
+  mode: StoryMode;
+  tags: string[];
+  createdAt: number;
+  /** Duration in seconds. */
+  duration: number;
+  sampleRate: number;
+  numChannels: number;
+  /** Size of the stored PCM in bytes. */
+  size: number;
+  /** Read-along timing, for entries saved since it was introduced. */
+  timing?: TimedSegment[];
+  /** Delivery direction the story was generated with. */
+  style?: StyleConfig;
+}
+
+interface HistoryAudio {
+  id: string;
+  pcm: Uint8Array;
+}
+
+export interface StorageUsage {
+  /** Bytes of PCM held by the history. */
+  historyBytes: number;
+  /** Origin-wide usage and quota reported by the browser, when available. */
+  usage?: number;
+  quota?: number;
+}
+
+// Length of the title derived from the story's first line.
+const DEFAULT_TITLE_LENGTH = 60;
+
+export const deriveTitle = (text: string): string => {
+  const firstLine = text.split("\n").find(line => line.trim())?.trim() ?? "Untitled story";
+  return firstLine.length > DEFAULT_TITLE_LENGTH ? `${firstLine.slice(0, DEFAULT_TITLE_LENGTH)}…` : firstLine;
+};
+
+/**
+ * Stores a finished generation together with its audio.
+ */
+export const saveGeneration = async (
+  buffer: AudioBuffer,
+  meta: { text: string; voice: VoiceName; mode: StoryMode; timing?: TimedSegment[]; style?: StyleConfig },
+): Promise<HistoryEntry> => {
+  const pcm = audioBufferToPcm16(buffer);
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    title: deriveTitle(meta.text),
+    text: meta.text,
+    voice: meta.voice,
+    mode: meta.mode,
+    tags: [],
+    createdAt: Date.now(),
+    duration: buffer.duration,
+    sampleRate: buffer.sampleRate,
+    numChannels: buffer.numberOfChannels,
+    size: pcm.byteLength,
+    timing: meta.timing,
+    style: meta.style,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.history, STORES.historyAudio], "readwrite");
+  tx.objectStore(STORES.history).put(entry);
+  tx.objectStore(STORES.historyAudio).put({ id: entry.id, pcm } as HistoryAudio);
+  await transactionDone(tx);
+
+  return entry;
+};
+
+/**
+ * Lists all entries, newest first.
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries: HistoryEntry[] = [];
+  await withStore(STORES.history, "readonly", (store) =>
+    iterateCursor(store.index("createdAt").openCursor(null, "prev"), (cursor) => {
+      entries.push(cursor.value as HistoryEntry);
+    })
+  );
+  return entries;
+};
+
+/**
+ * Filters entries by a free-text query matched against title, tags, voice and text.
+ */
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+
+  return entries.filter(entry => {
+    const haystack = [entry.title, entry.voice, entry.text, ...entry.tags].join(" ").toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const loadHistoryAudio = async (entry: HistoryEntry, ctx: AudioContext): Promise<AudioBuffer> => {
+  const audio = await withStore(STORES.historyAudio, "readonly", (store) =>
+    requestToPromise<HistoryAudio | undefined>(store.get(entry.id))
+  );
+  if (!audio) {
+    throw new Error("The audio for this history entry is missing.");
+  }
+  return decodeAudioData(audio.pcm, ctx, entry.sampleRate, entry.numChannels);
+};
+
+export const updateHistoryEntry = async (
+  id: string,
+  changes: Partial<Pick<HistoryEntry, "title" | "tags">>,
+): Promise<HistoryEntry> => {
+  return withStore(STORES.history, "readwrite", async (store) => {
+    const entry = await requestToPromise<HistoryEntry | undefined>(store.get(id));
+    if (!entry) {
+      throw new Error("History entry not found.");
+    }
+    const updated = { ...entry, ...changes };
+    store.put(updated);
+    return updated;
+  });
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.history, STORES.historyAudio], "readwrite");
+  tx.objectStore(STORES.history).delete(id);
+  tx.objectStore(STORES.historyAudio).delete(id);
+  await transactionDone(tx);
+};
+
+export const getStorageUsage = async (entries: HistoryEntry[]): Promise<StorageUsage> => {
+  const historyBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (!navigator.storage?.estimate) {
+    return { historyBytes };
+  }
+  const { usage, quota } = await navigator.storage.estimate();
+  return { historyBytes, usage, quota };
+};
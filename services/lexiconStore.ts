@@ -0,0 +1,93 @@
+import { isVoiceName } from "../utils/voiceCatalog";
+import { LexiconEntry } from "../utils/lexicon";
+
+const STORAGE_KEY = "storyteller.lexicon";
+// Version of the shared JSON file format
+const LEXICON_FILE_VERSION = 1;
+
+interface LexiconFile {
+  version: number;
+  entries: Omit<LexiconEntry, "id">[];
+}
+
+export const loadLexicon = (): LexiconEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to load lexicon:", error);
+    return [];
+  }
+};
+
+export const saveLexicon = (entries: LexiconEntry[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Failed to save lexicon:", error);
+  }
+};
+
+/**
+ * Serializes the lexicon for sharing. Ids are local and left out.
+ */
+export const exportLexicon = (entries: LexiconEntry[]): Blob => {
+  const file: LexiconFile = {
+    version: LEXICON_FILE_VERSION,
+    entries: entries.map(({ id, ...entry }) => entry),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+};
+
+/**
+ * Reads a shared lexicon file and merges it into `existing` (see `mergeLexicon`).
+ * @throws If the file is not a lexicon export.
+ */
+export const importLexicon = (json: string, existing: LexiconEntry[]): LexiconEntry[] => {
+  let file: Partial<LexiconFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("The lexicon file is not valid JSON.");
+  }
+  if (!file || !Array.isArray(file.entries)) {
+    throw new Error("The file does not contain a pronunciation lexicon.");
+  }
+  if (typeof file.version === "number" && file.version > LEXICON_FILE_VERSION) {
+    throw new Error("The lexicon file was made by a newer version of the app.");
+  }
+
+  return mergeLexicon(existing, readLexiconEntries(file.entries));
+};
+
+/**
+ * Validates shared entries and gives them fresh local ids.
+ * @throws If an entry has no word or replacement, or is for a voice this app does not have.
+ */
+export const readLexiconEntries = (entries: Omit<LexiconEntry, "id">[]): LexiconEntry[] =>
+  entries.map((entry, index) => {
+    if (typeof entry?.word !== "string" || typeof entry?.replacement !== "string" || !entry.word.trim()) {
+      throw new Error(`Lexicon entry ${index + 1} needs a word and a replacement.`);
+    }
+    // Widening the entry to every voice would change how the others read the word
+    if (entry.voice && !isVoiceName(entry.voice)) {
+      throw new Error(`Lexicon entry ${index + 1} ("${entry.word.trim()}") is for the voice "${entry.voice}", which this app does not have.`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      word: entry.word.trim(),
+      replacement: entry.replacement.trim(),
+      ...(entry.voice && { voice: entry.voice }),
+      ...(typeof entry.project === "string" && entry.project && { project: entry.project }),
+    };
+  });
+
+/**
+ * Merges `imported` into `existing`: imported entries replace existing ones for
+ * the same word and scope, everything else is kept.
+ */
+export const mergeLexicon = (existing: LexiconEntry[], imported: LexiconEntry[]): LexiconEntry[] => {
+  const scopeKey = (entry: LexiconEntry) => `${entry.word.toLocaleLowerCase()}\u0000${entry.voice ?? ""}\u0000${entry.project ?? ""}`;
+  const replaced = new Set(imported.map(scopeKey));
+  return [...existing.filter(entry => !replaced.has(scopeKey(entry))), ...imported];
+};
@@ -0,0 +1,136 @@
+import { SpeechRequest, SynthesizeOptions, TTSProvider, VoiceName } from "../types";
+import { VOICE_NAMES } from "../utils/voiceCatalog";
+import { splitSentences } from "../utils/textChunker";
+import { parseDialogue } from "../utils/dialogueParser";
+import { hashString } from "../utils/hash";
+
+/**
+ * Offline text-to-speech provider for development and automated tests.
+ *
+ * It produces a deterministic, speech-like signal without any network access:
+ * every letter becomes a short voiced sound whose formants are derived from the
+ * character, whitespace and punctuation become pauses, and each voice has its own
+ * pitch. The same request always yields byte-identical PCM.
+ */
+
+const SAMPLE_RATE = 24000;
+const MOCK_MODEL = "mock-formant-v1";
+
+// Durations in seconds
+const LETTER_DURATION = 0.07;
+const MARK_DURATION = 0.03;
+const WORD_PAUSE = 0.05;
+const CLAUSE_PAUSE = 0.15;
+const SENTENCE_PAUSE = 0.3;
+
+const PEAK_AMPLITUDE = 0.3;
+
+/** Derives a stable fundamental frequency (90-220 Hz) for a voice. */
+const pitchForVoice = (voice: VoiceName): number => 90 + (parseInt(hashString(voice), 16) % 130);
+
+/** Small seeded PRNG (mulberry32) so noise is reproducible. */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const renderText = (text: string, voice: VoiceName, out: number[]): void => {
+  const f0 = pitchForVoice(voice);
+  const voiceSeed = parseInt(hashString(voice), 16);
+
+  const pushSilence = (seconds: number) => {
+    for (let i = Math.round(seconds * SAMPLE_RATE); i > 0; i--) out.push(0);
+  };
+
+  const pushSound = (code: number, seconds: number) => {
+    const frames = Math.round(seconds * SAMPLE_RATE);
+    const f1 = 300 + ((code * 37) % 500);
+    const f2 = 900 + ((code * 91) % 1400);
+    const noisy = code % 5 === 0;
+    // Seeded per character so a sentence renders identically wherever it appears
+    const random = createRandom(voiceSeed ^ code);
+    // Slight pitch contour per character keeps the result from sounding flat
+    const pitch = f0 * (1 + ((code % 7) - 3) * 0.02);
+
+    for (let i = 0; i < frames; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.sin((Math.PI * i) / frames);
+      let sample = 0.5 * Math.sin(2 * Math.PI * pitch * t)
+        + 0.3 * Math.sin(2 * Math.PI * f1 * t) * Math.sin(2 * Math.PI * pitch * t)
+        + 0.2 * Math.sin(2 * Math.PI * f2 * t) * Math.sin(2 * Math.PI * pitch * t);
+      if (noisy) sample = 0.6 * sample + 0.4 * (random() * 2 - 1);
+      out.push(sample * envelope * PEAK_AMPLITUDE);
+    }
+  };
+
+  for (const char of text) {
+    if (/\s/.test(char)) pushSilence(WORD_PAUSE);
+    else if (/[.!?।॥]/.test(char)) pushSilence(SENTENCE_PAUSE);
+    else if (/[,;:—–-]/.test(char)) pushSilence(CLAUSE_PAUSE);
+    else if (/\p{M}/u.test(char)) pushSound(char.codePointAt(0)!, MARK_DURATION);
+    else if (/[\p{L}\p{N}]/u.test(char)) pushSound(char.codePointAt(0)!, LETTER_DURATION);
+  }
+};
+
+const toPcm16 = (samples: number[]): Uint8Array => {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, i) => {
+    const s = Math.max(-1, Math.min(1, sample));
+    view.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  });
+  return bytes;
+};
+
+/** Splits a request into text/voice parts, resolving `Speaker:` lines for scripts. */
+const toParts = (request: SpeechRequest): { text: string; voice: VoiceName }[] => {
+  if (!request.speakers || request.speakers.length < 2) {
+    return [{ text: request.text, voice: request.voice }];
+  }
+  return parseDialogue(request.text).map(line => ({
+    text: line.text,
+    voice: request.speakers!.find(s => s.speaker === line.speaker)?.voice ?? request.voice,
+  }));
+};
+
+const synthesize = async (request: SpeechRequest, { signal }: SynthesizeOptions): Promise<Uint8Array> => {
+  signal?.throwIfAborted();
+  const samples: number[] = [];
+  toParts(request).forEach(part => renderText(part.text, part.voice, samples));
+  return toPcm16(samples);
+};
+
+async function* synthesizeStream(request: SpeechRequest, { signal }: SynthesizeOptions): AsyncGenerator<Uint8Array> {
+  for (const part of toParts(request)) {
+    const sentences = splitSentences(part.text);
+    for (let i = 0; i < sentences.length; i++) {
+      signal?.throwIfAborted();
+      // Include the whitespace up to the next sentence so output matches `synthesize`
+      const end = i + 1 < sentences.length ? sentences[i + 1].start : part.text.length;
+      const samples: number[] = [];
+      renderText(part.text.slice(sentences[i].start, end), part.voice, samples);
+      // Yield to the event loop like a network stream would
+      await new Promise(resolve => setTimeout(resolve, 0));
+      yield toPcm16(samples);
+    }
+  }
+}
+
+export const mockProvider: TTSProvider = {
+  id: "mock",
+  label: "Offline (Mock)",
+  models: [MOCK_MODEL],
+  defaultModel: MOCK_MODEL,
+  capabilities: {
+    multiSpeaker: true,
+    maxSpeakers: 2,
+    streaming: true,
+    sampleRate: SAMPLE_RATE,
+  },
+  isConfigured: () => true,
+  listVoices: () => VOICE_NAMES,
+  synthesize,
+  synthesizeStream,
+};
@@ -0,0 +1,428 @@
+import { StoryMode, StyleConfig, TimedSegment, TimedSpan, VoiceCasting, VoiceName } from "../types";
+import { STORES, iterateCursor, openDatabase, requestToPromise, transactionDone, withStore } from "../utils/indexedDb";
+import { WavBitDepth, decodeAudioData } from "../utils/audioUtils";
+import { CAPTION_FORMATS, CaptionFormat } from "../utils/captions";
+import { DEFAULT_MASTERING_OPTIONS, MasteringOptions } from "../utils/mastering";
+import { DocumentFormat, ImportedDocument } from "../utils/documentImport";
+import { Chapter } from "../utils/importers/chapters";
+import { TEXT_ENCODINGS } from "../utils/importers/textEncoding";
+import { MP3_BITRATES } from "../utils/encoders/mp3";
+import { LexiconEntry } from "../utils/lexicon";
+import { DEFAULT_VOICE, isVoiceName } from "../utils/voiceCatalog";
+import { createZip, openZip } from "../utils/zip";
+
+/**
+ * Story projects: everything needed to pick a story up again (text, chapters,
+ * voices, style, pronunciations, export settings and optionally the generated
+ * audio). Projects are saved as portable `.story` files and autosaved to IndexedDB.
+ */
+
+// Marks a project file, so other JSON or ZIP files are rejected with a clear message
+export const PROJECT_FORMAT = "gemini-storyteller.project";
+// Bump when the shape of `StoryProject` changes, and add a migration below
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = "story";
+
+const PROJECT_ENTRY = "project.json";
+const AUDIO_ENTRY = "audio.pcm";
+// Autosaved projects kept for the Recent list
+const MAX_RECENT_PROJECTS = 20;
+
+/** Generated audio stored with a project. The PCM itself travels separately. */
+export interface ProjectAudio {
+  sampleRate: number;
+  numChannels: number;
+  /** Duration in seconds. */
+  duration: number;
+  /** Start of each paragraph in seconds, for skipping. */
+  paragraphStarts: number[];
+  /** The text that was synthesized and its timing, for read-along and captions. */
+  readAlong?: { text: string; timing: TimedSegment[] };
+}
+
+/** The parts of a project the editor owns; the rest is bookkeeping. */
+export interface ProjectSettings {
+  name: string;
+  text: string;
+  /** Chapter structure of an imported document. */
+  document: ImportedDocument | null;
+  mode: StoryMode;
+  voice: VoiceName;
+  casting: VoiceCasting;
+  style: StyleConfig;
+  providerId: string;
+  model: string;
+  /** Pronunciations that apply to the story: global ones and those scoped to it. */
+  lexicon: Omit<LexiconEntry, "id">[];
+  mastering: { enabled: boolean; options: MasteringOptions };
+  output: {
+    mimeType: string;
+    mp3Bitrate: number;
+    flacLevel: number;
+    wavBitDepth: WavBitDepth;
+    /** 0 keeps the generated sample rate. */
+    sampleRate: number;
+    captionFormat: CaptionFormat | null;
+  };
+  audio?: ProjectAudio;
+}
+
+export interface StoryProject extends ProjectSettings {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface StoredProjectAudio {
+  id: string;
+  pcm: Uint8Array;
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Upgrades older project files. Entry `i` takes a version `i + 1` project to
+ * version `i + 2`; only ever append, so every older file has a path forward.
+ */
+const MIGRATIONS: ((project: Fields) => Fields)[] = [];
+
+/**
+ * Stamps the editor's settings as a project, keeping the identity of an existing one.
+ */
+export const createProject = (
+  settings: ProjectSettings,
+  identity: { id: string; createdAt: number } = { id: crypto.randomUUID(), createdAt: Date.now() },
+): StoryProject => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  id: identity.id,
+  createdAt: identity.createdAt,
+  updatedAt: Date.now(),
+  ...settings,
+});
+
+// Project files may be hand-edited or damaged, so every field is checked before it
+// reaches the editor or the audio pipeline; anything malformed falls back to a default.
+
+const DOCUMENT_FORMATS: DocumentFormat[] = ["txt", "md", "epub", "docx"];
+const WAV_BIT_DEPTHS: WavBitDepth[] = [16, 24, 32];
+// Range AudioContext.createBuffer accepts
+const MIN_SAMPLE_RATE = 3000;
+const MAX_SAMPLE_RATE = 768000;
+const MAX_CHANNELS = 32;
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const readString = (value: unknown, fallback: string): string => (typeof value === "string" ? value : fallback);
+
+const readNumber = (value: unknown, fallback: number): number => (isFiniteNumber(value) ? value : fallback);
+
+const readOneOf = <T>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+/** Reads a list in which every item must be valid; null if any is not. */
+const readList = <T>(value: unknown, readItem: (item: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(value)) return null;
+  const items: T[] = [];
+  for (const item of value) {
+    const read = readItem(item);
+    if (read === null) return null;
+    items.push(read);
+  }
+  return items;
+};
+
+const readSpan = (value: unknown): TimedSpan | null => {
+  if (!isRecord(value)) return null;
+  const { start, end, startTime, endTime } = value;
+  if (!isIntegerIn(start, 0, Infinity) || !isIntegerIn(end, start, Infinity)) return null;
+  if (!isFiniteNumber(startTime) || !isFiniteNumber(endTime) || startTime < 0 || endTime < startTime) return null;
+  return { start, end, startTime, endTime };
+};
+
+const readSegment = (value: unknown): TimedSegment | null => {
+  const span = readSpan(value);
+  const words = isRecord(value) ? readList(value.words, readSpan) : null;
+  return span && words ? { ...span, words } : null;
+};
+
+const readChapter = (value: unknown): Chapter | null => {
+  if (!isRecord(value) || typeof value.title !== "string" || typeof value.text !== "string") return null;
+  return {
+    id: typeof value.id === "string" && value.id ? value.id : crypto.randomUUID(),
+    title: value.title,
+    text: value.text,
+    included: value.included !== false,
+  };
+};
+
+const readDocument = (value: unknown): ImportedDocument | null => {
+  if (!isRecord(value)) return null;
+  const chapters = readList(value.chapters, readChapter);
+  if (!chapters) return null;
+  const encoding = TEXT_ENCODINGS.find(e => e.value === value.encoding)?.value;
+  return {
+    title: readString(value.title, ""),
+    format: readOneOf(value.format, DOCUMENT_FORMATS, "txt"),
+    chapters,
+    ...(encoding && { encoding }),
+  };
+};
+
+const readStyle = (value: unknown): StyleConfig => {
+  if (!isRecord(value)) return { direction: "" };
+  const paragraphs = isRecord(value.paragraphs)
+    ? Object.fromEntries(
+        Object.entries(value.paragraphs).filter(([index, direction]) => /^\d+$/.test(index) && typeof direction === "string")
+      ) as Record<number, string>
+    : {};
+  return {
+    direction: readString(value.direction, ""),
+    ...(Object.keys(paragraphs).length > 0 && { paragraphs }),
+  };
+};
+
+const readMasteringOptions = (value: unknown): MasteringOptions => {
+  const options = isRecord(value) ? value : {};
+  const defaults = DEFAULT_MASTERING_OPTIONS;
+  return {
+    targetLufs: options.targetLufs === null ? null : readNumber(options.targetLufs, defaults.targetLufs ?? -16),
+    truePeakDb: readNumber(options.truePeakDb, defaults.truePeakDb),
+    trimSilence: typeof options.trimSilence === "boolean" ? options.trimSilence : defaults.trimSilence,
+    maxSilenceSeconds: Math.max(0, readNumber(options.maxSilenceSeconds, defaults.maxSilenceSeconds)),
+    paragraphPauseSeconds: Math.max(0, readNumber(options.paragraphPauseSeconds, defaults.paragraphPauseSeconds)),
+  };
+};
+
+// Entries for voices this build does not know are dropped rather than widened to every voice
+const readLexiconEntry = (value: unknown): Omit<LexiconEntry, "id"> | null => {
+  if (!isRecord(value) || typeof value.word !== "string" || !value.word.trim() || typeof value.replacement !== "string") return null;
+  if (value.voice !== undefined && !(typeof value.voice === "string" && isVoiceName(value.voice))) return null;
+  return {
+    word: value.word,
+    replacement: value.replacement,
+    ...(typeof value.voice === "string" && isVoiceName(value.voice) && { voice: value.voice }),
+    ...(typeof value.project === "string" && value.project && { project: value.project }),
+  };
+};
+
+const readAudio = (value: unknown): ProjectAudio | null => {
+  if (!isRecord(value)) return null;
+  const { sampleRate, numChannels } = value;
+  if (!isIntegerIn(sampleRate, MIN_SAMPLE_RATE, MAX_SAMPLE_RATE) || !isIntegerIn(numChannels, 1, MAX_CHANNELS)) return null;
+  const readAlong = isRecord(value.readAlong) ? value.readAlong : {};
+  const text = typeof readAlong.text === "string" ? readAlong.text : null;
+  const timing = text !== null ? readList(readAlong.timing, readSegment) : null;
+  return {
+    sampleRate,
+    numChannels,
+    duration: Math.max(0, readNumber(value.duration, 0)),
+    paragraphStarts: readList(value.paragraphStarts, item => (isFiniteNumber(item) && item >= 0 ? item : null)) ?? [],
+    // Timing must stay within the text it was made for
+    ...(text !== null && timing && timing.every(segment => segment.end <= text.length) && { readAlong: { text, timing } }),
+  };
+};
+
+/**
+ * Brings a parsed project of any known version up to the current one, checks
+ * every field and fills in defaults for anything missing or malformed.
+ * @throws If the data is not a project, or was made by a newer version of the app.
+ */
+export const migrateProject = (raw: unknown): StoryProject => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error("The file is not a story project.");
+  }
+  const version = raw.version === undefined ? 1 : raw.version;
+  if (!isIntegerIn(version, 1, Infinity)) {
+    throw new Error("The project file is damaged.");
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error("The project was saved by a newer version of the app.");
+  }
+
+  let project = raw;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    project = MIGRATIONS[v - 1](project);
+  }
+
+  if (typeof project.text !== "string") {
+    throw new Error("The project has no story text.");
+  }
+  const output = isRecord(project.output) ? project.output : {};
+  const mastering = isRecord(project.mastering) ? project.mastering : {};
+  const audio = readAudio(project.audio);
+  const name = readString(project.name, "").trim();
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    id: typeof project.id === "string" && project.id ? project.id : crypto.randomUUID(),
+    name: name || "Untitled project",
+    createdAt: readNumber(project.createdAt, Date.now()),
+    updatedAt: readNumber(project.updatedAt, Date.now()),
+    text: project.text,
+    document: readDocument(project.document),
+    mode: project.mode === "dialogue" ? "dialogue" : "narration",
+    voice: typeof project.voice === "string" && isVoiceName(project.voice) ? project.voice : DEFAULT_VOICE,
+    // Unknown voices are dropped so auto-casting fills those speakers in again
+    casting: Object.fromEntries(
+      Object.entries(isRecord(project.casting) ? project.casting : {})
+        .filter((pair): pair is [string, VoiceName] => typeof pair[1] === "string" && isVoiceName(pair[1]))
+    ),
+    style: readStyle(project.style),
+    providerId: readString(project.providerId, ""),
+    model: readString(project.model, ""),
+    lexicon: Array.isArray(project.lexicon)
+      ? project.lexicon.map(readLexiconEntry).filter((entry): entry is Omit<LexiconEntry, "id"> => entry !== null)
+      : [],
+    mastering: {
+      enabled: mastering.enabled !== false,
+      options: readMasteringOptions(mastering.options),
+    },
+    output: {
+      mimeType: readString(output.mimeType, "audio/wav"),
+      mp3Bitrate: readOneOf(output.mp3Bitrate, MP3_BITRATES, 128),
+      flacLevel: isIntegerIn(output.flacLevel, 0, 8) ? output.flacLevel : 5,
+      wavBitDepth: readOneOf(output.wavBitDepth, WAV_BIT_DEPTHS, 16),
+      sampleRate: isIntegerIn(output.sampleRate, MIN_SAMPLE_RATE, MAX_SAMPLE_RATE) ? output.sampleRate : 0,
+      captionFormat: CAPTION_FORMATS.find(f => f.value === output.captionFormat)?.value ?? null,
+    },
+    ...(audio && { audio }),
+  };
+};
+
+/**
+ * Packs a project into a `.story` file: a ZIP holding `project.json` and, when
+ * given, the audio as 16-bit PCM.
+ */
+export const createProjectFile = (project: StoryProject, pcm: Uint8Array | null): Blob => {
+  const { audio, ...rest } = project;
+  const json = JSON.stringify(pcm && audio ? { ...rest, audio } : rest, null, 2);
+  const files = [{ name: PROJECT_ENTRY, data: new TextEncoder().encode(json) }];
+  if (pcm && audio) {
+    files.push({ name: AUDIO_ENTRY, data: pcm });
+  }
+  return createZip(files);
+};
+
+/**
+ * Opens a `.story` file, or a bare `project.json`, migrating it to the current
+ * version. The audio is only returned when the file carries it.
+ * @throws If the file is not a project or cannot be read.
+ */
+export const readProjectFile = async (
+  file: Blob,
+  ctx: AudioContext,
+): Promise<{ project: StoryProject; audio: AudioBuffer | null }> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  // A JSON project starts with "{", possibly after a byte order mark or whitespace
+  const json = new TextDecoder().decode(data.subarray(0, 16)).trimStart().startsWith("{");
+  let text: string;
+  let pcm: Uint8Array | null = null;
+  if (json) {
+    text = new TextDecoder().decode(data);
+  } else {
+    const zip = openZip(data);
+    if (!zip.has(PROJECT_ENTRY)) {
+      throw new Error("The file is not a story project.");
+    }
+    text = await zip.readText(PROJECT_ENTRY);
+    if (zip.has(AUDIO_ENTRY)) {
+      // Stored entries are views into the archive at any offset; 16-bit samples need an aligned copy
+      pcm = (await zip.read(AUDIO_ENTRY)).slice();
+    }
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The project file is damaged.");
+  }
+  const project = migrateProject(parsed);
+  if (!pcm || !project.audio) {
+    const { audio, ...rest } = project;
+    return { project: rest, audio: null };
+  }
+  return { project, audio: await decodeAudioData(pcm, ctx, project.audio.sampleRate, project.audio.numChannels) };
+};
+
+/**
+ * Autosaves a project. `pcm` replaces the stored audio, `null` removes it and
+ * `undefined` leaves it as it is.
+ */
+export const saveProjectSnapshot = async (project: StoryProject, pcm?: Uint8Array | null): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.projects, STORES.projectAudio], "readwrite");
+  tx.objectStore(STORES.projects).put(project);
+  if (pcm) {
+    tx.objectStore(STORES.projectAudio).put({ id: project.id, pcm } as StoredProjectAudio);
+  } else if (pcm === null) {
+    tx.objectStore(STORES.projectAudio).delete(project.id);
+  }
+  await transactionDone(tx);
+  await pruneProjects();
+};
+
+/**
+ * Lists autosaved projects, most recently changed first.
+ */
+export const listRecentProjects = async (): Promise<StoryProject[]> => {
+  const projects: unknown[] = [];
+  await withStore(STORES.projects, "readonly", (store) =>
+    iterateCursor(store.index("updatedAt").openCursor(null, "prev"), (cursor) => {
+      projects.push(cursor.value);
+    })
+  );
+  // Snapshots may predate the current version; one that cannot be read is left out
+  return projects.flatMap(project => {
+    try {
+      return [migrateProject(project)];
+    } catch (error) {
+      console.warn("Skipping unreadable project snapshot:", error);
+      return [];
+    }
+  });
+};
+
+/**
+ * Loads the audio autosaved with a project, or null if it has none.
+ */
+export const loadProjectAudio = async (project: StoryProject, ctx: AudioContext): Promise<AudioBuffer | null> => {
+  if (!project.audio) return null;
+  const audio = await withStore(STORES.projectAudio, "readonly", (store) =>
+    requestToPromise<StoredProjectAudio | undefined>(store.get(project.id))
+  );
+  return audio ? decodeAudioData(audio.pcm, ctx, project.audio.sampleRate, project.audio.numChannels) : null;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.projects, STORES.projectAudio], "readwrite");
+  tx.objectStore(STORES.projects).delete(id);
+  tx.objectStore(STORES.projectAudio).delete(id);
+  await transactionDone(tx);
+};
+
+// Drops the oldest snapshots beyond the Recent list
+const pruneProjects = async (): Promise<void> => {
+  const stale: string[] = [];
+  let seen = 0;
+  await withStore(STORES.projects, "readonly", (store) =>
+    iterateCursor(store.index("updatedAt").openCursor(null, "prev"), (cursor) => {
+      if (++seen > MAX_RECENT_PROJECTS) stale.push((cursor.value as StoryProject).id);
+    })
+  );
+  for (const id of stale) {
+    await deleteProject(id);
+  }
+};
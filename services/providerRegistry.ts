@@ -0,0 +1,19 @@
+import { TTSProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: TTSProvider[] = [geminiProvider, mockProvider];
+
+export const listProviders = (): TTSProvider[] => PROVIDERS;
+
+export const getProvider = (id: string): TTSProvider => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown TTS provider: ${id}`);
+  }
+  return provider;
+};
+
+/** The first configured provider, falling back to the offline one. */
+export const getDefaultProvider = (): TTSProvider =>
+  PROVIDERS.find(p => p.isConfigured()) ?? mockProvider;
@@ -0,0 +1,336 @@
+import { getDefaultProvider } from "./providerRegistry";
+import { computeCacheKey, getCachedAudio, putCachedAudio } from "./audioCache";
+import { SpeechRequest, SynthesisProgress, TextChunk, TimedSegment, TTSConfig, TTSProvider } from "../types";
+import { chunkText, DEFAULT_MAX_CHUNK_CHARS } from "../utils/textChunker";
+import { chunkDialogue } from "../utils/dialogueParser";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { buildTimingMap } from "../utils/timingMap";
+import { resolveChunkStyle } from "../utils/stylePresets";
+import { applyMarkup, maskMarkup, MarkupTag, parseMarkup } from "../utils/markup";
+import { applyLexiconToRequest, LexiconEntry } from "../utils/lexicon";
+import { LoudnessReport, MasteringOptions, masterBuffer, tidySilence } from "../utils/mastering";
+import { withRetry, withTimeout } from "../utils/retry";
+import { TTSError, toTTSError } from "./ttsErrors";
+import {
+  applyEdgeFades,
+  concatBytes,
+  decodeAudioData,
+  stitchAudioBuffers,
+  computeStitchOffsets,
+  DEFAULT_STITCH_OPTIONS,
+  StitchOptions,
+} from "../utils/audioUtils";
+
+// Number of TTS requests allowed in flight at once.
+const DEFAULT_CONCURRENCY = 3;
+// Transient failures (rate limits, network drops, timeouts) are retried with backoff
+const DEFAULT_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 120_000;
+
+/** A piece of audio ready for playback, positioned on the stitched story timeline. */
+export interface AudioSegment {
+  chunkIndex: number;
+  buffer: AudioBuffer;
+  /** Start time on the story timeline, in seconds. */
+  startTime: number;
+}
+
+export interface StorySynthesisOptions {
+  /** Defaults to the first configured provider. */
+  provider?: TTSProvider;
+  /** Defaults to the provider's default model. */
+  model?: string;
+  maxChunkChars?: number;
+  concurrency?: number;
+  stitch?: StitchOptions;
+  /**
+   * Silence tidying, paragraph pauses, loudness normalization and limiting.
+   * Chunks are tidied once complete, so with silence processing enabled they are
+   * released for playback whole rather than streamed.
+   */
+  mastering?: MasteringOptions;
+  /** Pronunciation entries substituted into the text of every request. */
+  lexicon?: LexiconEntry[];
+  /** Story key that project-scoped lexicon entries are matched against. */
+  project?: string;
+  /** Serve unchanged chunks from the persistent audio cache. */
+  useCache?: boolean;
+  /** Stream audio, where the provider supports it, so playback can start before a chunk is complete. */
+  streaming?: boolean;
+  /** Retries of a chunk after a transient failure. */
+  retries?: number;
+  /** Time allowed for one request before it is aborted (and retried), in milliseconds. */
+  requestTimeoutMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: SynthesisProgress) => void;
+  /** Called when a chunk failed transiently and is about to be retried. */
+  onRetry?: (error: TTSError, attempt: number, delayMs: number) => void;
+  /** Receives playable audio in story order as soon as it is available. */
+  onSegment?: (segment: AudioSegment) => void;
+}
+
+export interface StorySynthesisResult {
+  buffer: AudioBuffer;
+  chunks: TextChunk[];
+  /** Start time of each chunk on the stitched timeline, in seconds. */
+  chunkStartTimes: number[];
+  /** Start time of each paragraph (or dialogue line group), in seconds. */
+  paragraphStartTimes: number[];
+  /** Sentence and word timing for read-along, with offsets into the story text. */
+  timing: TimedSegment[];
+  /** Loudness before and after mastering, when it was enabled. */
+  loudness?: LoudnessReport;
+}
+
+/**
+ * Synthesizes a story of any length by splitting it into chunks, synthesizing the
+ * chunks in parallel (bounded by `concurrency`) and stitching the decoded audio
+ * into a single AudioBuffer. Chunks whose audio is already in the cache are not
+ * sent to the provider again, so editing one paragraph only re-synthesizes it.
+ *
+ * When `onSegment` is given, audio is also released in story order while the
+ * remaining chunks are still being generated, positioned exactly where it will
+ * sit in the stitched buffer.
+ */
+export const synthesizeStory = async (
+  config: TTSConfig,
+  ctx: AudioContext,
+  options: StorySynthesisOptions = {},
+): Promise<StorySynthesisResult> => {
+  const {
+    provider = getDefaultProvider(),
+    model = provider.defaultModel,
+    maxChunkChars = DEFAULT_MAX_CHUNK_CHARS,
+    concurrency = DEFAULT_CONCURRENCY,
+    stitch = DEFAULT_STITCH_OPTIONS,
+    mastering,
+    lexicon = [],
+    project,
+    streaming = true,
+    useCache = true,
+    retries = DEFAULT_RETRIES,
+    requestTimeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+    signal,
+    onProgress,
+    onRetry,
+    onSegment,
+  } = options;
+
+  const markup = parseMarkup(config.text, { voices: provider.listVoices(), allowVoiceSwitch: config.mode !== "dialogue" });
+  if (markup.errors.length > 0) {
+    throw new Error(`Invalid markup: ${markup.errors[0].message}`);
+  }
+
+  const chunks = planChunks(config, maxChunkChars, provider.capabilities.multiSpeaker, markup.tags);
+  const sampleRate = provider.capabilities.sampleRate;
+  const tidiesSilence = !!mastering && (mastering.trimSilence || mastering.maxSilenceSeconds > 0);
+  const synthesizeStream = streaming && provider.capabilities.streaming && !tidiesSilence ? provider.synthesizeStream : undefined;
+  if (chunks.length === 0) {
+    throw new Error("There is no text to synthesize.");
+  }
+
+  const decodeChunk = async (pcm: Uint8Array): Promise<AudioBuffer> => {
+    const buffer = await decodeAudioData(pcm, ctx, sampleRate);
+    return tidiesSilence ? tidySilence(buffer, ctx, mastering!) : buffer;
+  };
+
+  // Gap before each chunk: a pause written in the markup, else the paragraph pause when mastering
+  const gaps = chunks.map((chunk, i) =>
+    chunk.pauseBefore ?? (
+      mastering && i > 0 && chunk.paragraphIndex !== chunks[i - 1].paragraphIndex
+        ? mastering.paragraphPauseSeconds
+        : stitch.gapSeconds
+    )
+  );
+
+  let completed = 0;
+  let cached = 0;
+  let requests = 0;
+  let inputChars = 0;
+  let outputSeconds = 0;
+  const reportProgress = () => onProgress?.({ completed, total: chunks.length, cached, requests, inputChars, outputSeconds });
+  reportProgress();
+
+  const releaser = onSegment ? createSegmentReleaser(chunks.length, stitch, gaps, onSegment) : null;
+
+  // One provider request, bounded by the request timeout. Errors come out typed.
+  const requestChunk = async (request: SpeechRequest, index: number, onStreamed: () => void): Promise<Uint8Array> => {
+    const timeout = withTimeout(requestTimeoutMs, signal);
+    requests++;
+    inputChars += request.text.length + (request.style?.length ?? 0);
+    try {
+      if (synthesizeStream) {
+        const pieces: Uint8Array[] = [];
+        // Network pieces need not end on a sample boundary: an odd trailing byte waits for the next piece
+        let carry: Uint8Array | null = null;
+        for await (const piece of synthesizeStream(request, { model, signal: timeout.signal })) {
+          pieces.push(piece);
+          onStreamed();
+          if (!releaser) continue;
+          const bytes: Uint8Array = carry ? concatBytes([carry, piece]) : piece;
+          const whole = bytes.byteLength - (bytes.byteLength % 2);
+          carry = whole < bytes.byteLength ? bytes.slice(whole) : null;
+          if (whole > 0) {
+            // Copied, so the 16-bit view starts at an aligned offset
+            releaser.push(index, await decodeAudioData(bytes.slice(0, whole), ctx, sampleRate));
+          }
+        }
+        return concatBytes(pieces);
+      }
+      const pcm = await provider.synthesize(request, { model, signal: timeout.signal });
+      releaser?.push(index, await decodeChunk(pcm));
+      return pcm;
+    } catch (error) {
+      // Cancellation is passed on as is; our own timeout is reported as one
+      if (signal?.aborted) throw error;
+      if (timeout.signal.aborted) throw new TTSError("timeout", "The speech service did not answer in time.", { cause: error });
+      throw toTTSError(error);
+    } finally {
+      timeout.clear();
+    }
+  };
+
+  const pcmChunks = await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+    signal?.throwIfAborted();
+
+    const request: SpeechRequest = applyLexiconToRequest({
+      text: chunk.text,
+      voice: chunk.voice ?? config.voice,
+      speakers: chunk.speakers,
+      style: resolveChunkStyle(config.style, chunk),
+    }, lexicon, project);
+
+    const cacheKey = useCache ? await computeCacheKey(request, provider.id, model) : null;
+    const hit = cacheKey ? await getCachedAudio(cacheKey).catch(() => null) : null;
+
+    let pcm: Uint8Array;
+    if (hit) {
+      pcm = hit.pcm;
+      cached++;
+      releaser?.push(index, await decodeChunk(pcm));
+    } else {
+      // Audio already handed to the player cannot be taken back, so a stream that
+      // breaks after it started playing is not retried.
+      let streamed = false;
+      pcm = await withRetry(() => requestChunk(request, index, () => { streamed = true; }), {
+        retries,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        maxDelayMs: RETRY_MAX_DELAY_MS,
+        signal,
+        shouldRetry: error => !streamed && error instanceof TTSError && error.retryable,
+        delayFor: error => (error as TTSError).retryAfterMs,
+        onRetry: (error, attempt, delayMs) => onRetry?.(error as TTSError, attempt, delayMs),
+      });
+
+      outputSeconds += pcm.byteLength / 2 / sampleRate;
+      if (cacheKey) {
+        putCachedAudio(cacheKey, pcm, sampleRate).catch(error => console.warn("Failed to cache audio:", error));
+      }
+    }
+
+    releaser?.complete(index);
+    completed++;
+    reportProgress();
+    return pcm;
+  });
+
+  // Decode the full chunks afresh: segment buffers handed to the player were faded in place.
+  const buffers = await Promise.all(pcmChunks.map(decodeChunk));
+
+  const chunkDurations = buffers.map(b => b.duration);
+  const chunkStartTimes = computeStitchOffsets(chunkDurations, stitch, gaps);
+  const buffer = stitchAudioBuffers(buffers, ctx, stitch, gaps);
+  // Gain and limiting only; timing is unchanged
+  const loudness = mastering ? masterBuffer(buffer, mastering) : undefined;
+
+  return {
+    buffer,
+    chunks,
+    chunkStartTimes,
+    paragraphStartTimes: chunkStartTimes.filter((_, i) => i === 0 || chunks[i].paragraphIndex !== chunks[i - 1].paragraphIndex),
+    // Tags are masked so they are not timed as words
+    timing: buildTimingMap(maskMarkup(config.text, markup.tags), chunks, chunkStartTimes, chunkDurations),
+    loudness,
+  };
+};
+
+/**
+ * Splits the story into synthesis chunks according to its mode. Chunks are cut at
+ * the pauses and voice switches in `tags` and carry the text to speak with the
+ * markup rendered.
+ */
+export const planChunks = (
+  config: TTSConfig,
+  maxChunkChars: number = DEFAULT_MAX_CHUNK_CHARS,
+  multiSpeaker: boolean = true,
+  tags: MarkupTag[] = [],
+): TextChunk[] => {
+  if (config.mode === "dialogue") {
+    return chunkDialogue(config.text, config.casting ?? {}, config.voice, maxChunkChars, multiSpeaker, tags);
+  }
+  return applyMarkup(config.text, chunkText(maskMarkup(config.text, tags), maxChunkChars), tags);
+};
+
+/**
+ * Releases decoded audio pieces in story order. Pieces of later chunks are held
+ * back until every earlier chunk has been released completely. The latest piece of
+ * the chunk being released is kept one step behind so the joint fade-out can be
+ * applied once the chunk is known to be complete, matching `stitchAudioBuffers`.
+ */
+function createSegmentReleaser(
+  chunkCount: number,
+  stitch: StitchOptions,
+  gaps: number[],
+  onSegment: (segment: AudioSegment) => void,
+) {
+  const pending: AudioBuffer[][] = Array.from({ length: chunkCount }, () => []);
+  const done: boolean[] = new Array(chunkCount).fill(false);
+  let head = 0;
+  let headStart = 0;
+  let cursor = 0;
+  let held: AudioBuffer | null = null;
+  let heldIsFirst = true;
+
+  const emit = (buffer: AudioBuffer) => {
+    onSegment({ chunkIndex: head, buffer, startTime: cursor });
+    cursor += buffer.duration;
+  };
+
+  const flush = () => {
+    while (head < chunkCount) {
+      for (const piece of pending[head].splice(0)) {
+        if (held) emit(held);
+        if (heldIsFirst && head > 0) applyEdgeFades(piece, stitch.crossfadeSeconds, true, false);
+        held = piece;
+        heldIsFirst = false;
+      }
+
+      if (!done[head]) return;
+
+      if (held) {
+        if (head < chunkCount - 1) applyEdgeFades(held, stitch.crossfadeSeconds, false, true);
+        emit(held);
+        held = null;
+      }
+
+      // Same placement rule as computeStitchOffsets
+      headStart = Math.max(headStart, cursor + (gaps[head + 1] ?? stitch.gapSeconds) - stitch.crossfadeSeconds);
+      cursor = headStart;
+      heldIsFirst = true;
+      head++;
+    }
+  };
+
+  return {
+    push(chunkIndex: number, buffer: AudioBuffer) {
+      pending[chunkIndex].push(buffer);
+      flush();
+    },
+    complete(chunkIndex: number) {
+      done[chunkIndex] = true;
+      flush();
+    },
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Error taxonomy for speech synthesis. Providers throw `TTSError`s (or errors that
+ * `toTTSError` can classify) so that retries and user-facing messages depend on
+ * what went wrong, not on the wording of a provider's message.
+ */
+
+export type TTSErrorKind =
+  | "rate-limit"
+  | "quota"
+  | "blocked"
+  | "invalid-key"
+  | "empty-audio"
+  | "network"
+  | "timeout"
+  | "server"
+  | "cancelled"
+  | "unknown";
+
+// Worth trying again after a pause: the same request may well succeed
+const TRANSIENT_KINDS: TTSErrorKind[] = ["rate-limit", "network", "timeout", "server", "empty-audio"];
+
+export class TTSError extends Error {
+  readonly kind: TTSErrorKind;
+  /** Delay the service asked for before trying again, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: TTSErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "TTSError";
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Classifies any error thrown while synthesizing. HTTP status codes are used where
+ * the error carries one (the Gemini SDK's `ApiError` does), otherwise the message.
+ */
+export function toTTSError(error: unknown): TTSError {
+  if (error instanceof TTSError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === "number" ? (error as { status: number }).status : undefined;
+  const name = (error as { name?: string })?.name;
+  const text = message.toLowerCase();
+
+  if (name === "AbortError") return new TTSError("cancelled", "Generation was cancelled.", { cause: error });
+  if (name === "TimeoutError") return new TTSError("timeout", "The request timed out.", { cause: error });
+
+  if (status === 429 || text.includes("resource_exhausted") || text.includes("rate limit")) {
+    // Gemini sends the same "exceeded your current quota" sentence for every 429, so
+    // tell a daily quota (which will not recover within a retry) from a per-minute
+    // limit by the suggested delay and the violated quota ids instead
+    const retryAfterMs = parseRetryDelay(message);
+    const quotaIds = parseQuotaIds(message);
+    const isQuota = retryAfterMs === undefined && (quotaIds.length > 0
+      ? quotaIds.some(id => /perday/i.test(id)) && !quotaIds.some(id => /perminute/i.test(id))
+      : /per day|daily/.test(text));
+    return new TTSError(isQuota ? "quota" : "rate-limit", message, { cause: error, retryAfterMs });
+  }
+  if (status === 401 || status === 403 || text.includes("api key not valid") || text.includes("api_key_invalid") || text.includes("permission_denied")) {
+    return new TTSError("invalid-key", message, { cause: error });
+  }
+  if (status === 408 || status === 504 || text.includes("deadline")) {
+    return new TTSError("timeout", message, { cause: error });
+  }
+  if (status !== undefined && status >= 500) {
+    return new TTSError("server", message, { cause: error });
+  }
+  if (text.includes("safety") || text.includes("blocked") || text.includes("prohibited")) {
+    return new TTSError("blocked", message, { cause: error });
+  }
+  if (error instanceof TypeError || /failed to fetch|network|load failed|econnreset/.test(text)) {
+    return new TTSError("network", message, { cause: error });
+  }
+  return new TTSError("unknown", message, { cause: error });
+}
+
+/** Reads a server-suggested delay such as `"retryDelay": "37s"` or "retry in 12.5s". */
+function parseRetryDelay(message: string): number | undefined {
+  const match = /retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i.exec(message);
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+/** Reads the ids of violated quotas, such as `"quotaId": "GenerateRequestsPerDayPerProjectPerModel-FreeTier"`. */
+function parseQuotaIds(message: string): string[] {
+  return Array.from(message.matchAll(/quotaId"?:\s*"([^"]+)"/gi), match => match[1]);
+}
+
+export interface ErrorDescription {
+  title: string;
+  /** What the user can do about it. */
+  action: string;
+}
+
+const DESCRIPTIONS: Record<TTSErrorKind, ErrorDescription> = {
+  "rate-limit": {
+    title: "Too many requests",
+    action: "The service is throttling requests. Wait a minute and try again; chunks already generated are cached and will not be requested again.",
+  },
+  quota: {
+    title: "Quota exhausted",
+    action: "Your API quota is used up. Check your plan and billing in Google AI Studio, or switch to the offline provider.",
+  },
+  blocked: {
+    title: "Blocked by safety filters",
+    action: "The text or style direction was refused. Rephrase the flagged passage and generate again.",
+  },
+  "invalid-key": {
+    title: "Invalid API key",
+    action: "Check that GEMINI_API_KEY is set to a valid key with access to the TTS models.",
+  },
+  "empty-audio": {
+    title: "No audio returned",
+    action: "The service answered without audio. Try again; if it persists, shorten the passage or change the voice.",
+  },
+  network: {
+    title: "Network error",
+    action: "Check your internet connection and try again.",
+  },
+  timeout: {
+    title: "Request timed out",
+    action: "The service took too long to answer. Try again, or split long paragraphs.",
+  },
+  server: {
+    title: "Service unavailable",
+    action: "The speech service had a temporary problem. Try again in a few moments.",
+  },
+  cancelled: {
+    title: "Cancelled",
+    action: "Generation was cancelled.",
+  },
+  unknown: {
+    title: "Generation failed",
+    action: "Try again. If the problem persists, check the browser console for details.",
+  },
+};
+
+/** User-facing title and suggested action for an error. */
+export function describeError(error: unknown): ErrorDescription & { kind: TTSErrorKind } {
+  const { kind } = toTTSError(error);
+  return { kind, ...DESCRIPTIONS[kind] };
+}
+
+/**
+ * One-line message for an error banner: the title and suggested action for a
+ * recognized failure, the error's own message otherwise.
+ */
+export function formatErrorMessage(error: unknown, fallback: string): string {
+  const { kind, title, action } = describeError(error);
+  if (kind === "unknown") {
+    return (error instanceof Error && error.message) || fallback;
+  }
+  return `${title}. ${action}`;
+}
@@ -0,0 +1,320 @@
+import { TTSConfig, TTSProvider, SynthesisProgress } from "../types";
+import { planChunks } from "./storySynthesis";
+import { parseMarkup } from "../utils/markup";
+import { resolveChunkStyle } from "../utils/stylePresets";
+import { DEFAULT_MAX_CHUNK_CHARS } from "../utils/textChunker";
+import { formatDuration } from "../utils/format";
+
+/**
+ * Usage metering: estimates what a story will cost before it is generated, keeps a
+ * record of what each generation actually used, and checks both against the daily
+ * and monthly limits the user configured. Records live in localStorage.
+ */
+
+const RECORDS_KEY = "storyteller.usage";
+const LIMITS_KEY = "storyteller.usageLimits";
+// Records older than this are dropped when a new one is added
+const RETENTION_DAYS = 400;
+// Rough text tokenization of the Gemini models
+const CHARS_PER_TOKEN = 4;
+// Typical narration pace, about 150 words per minute
+const SPOKEN_CHARS_PER_SECOND = 14;
+// Audio output is billed at a fixed token rate
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+interface ModelPricing {
+  /** USD per million input (text) tokens. */
+  input: number;
+  /** USD per million output (audio) tokens. */
+  output: number;
+}
+
+// List prices; models not listed are treated as free
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gemini-2.5-flash-preview-tts": { input: 0.5, output: 10 },
+  "gemini-2.5-pro-preview-tts": { input: 1, output: 20 },
+};
+
+export type UsageSource = "story" | "batch" | "audition";
+export type UsageOutcome = "completed" | "failed" | "cancelled";
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  source: UsageSource;
+  providerId: string;
+  model: string;
+  /** First words of the story. */
+  title: string;
+  outcome: UsageOutcome;
+  requests: number;
+  cachedChunks: number;
+  inputChars: number;
+  /** Estimated from `inputChars`. */
+  inputTokens: number;
+  outputSeconds: number;
+  /** Estimated cost in USD at list prices. */
+  cost: number;
+}
+
+export interface UsageEstimate {
+  requests: number;
+  inputChars: number;
+  inputTokens: number;
+  outputSeconds: number;
+  cost: number;
+}
+
+export interface UsageTotals extends UsageEstimate {
+  generations: number;
+  cachedChunks: number;
+}
+
+export type UsagePeriod = "day" | "month";
+export type UsageMetric = "requests" | "inputChars" | "outputSeconds" | "cost";
+
+export interface LimitThresholds {
+  /** Generation is allowed past this, with a warning. */
+  soft?: number;
+  /** Generation that would pass this is blocked. */
+  hard?: number;
+}
+
+export type UsageLimits = Record<UsagePeriod, Partial<Record<UsageMetric, LimitThresholds>>>;
+
+export const EMPTY_USAGE_LIMITS: UsageLimits = { day: {}, month: {} };
+
+export const USAGE_METRICS: { id: UsageMetric; label: string }[] = [
+  { id: "requests", label: "Requests" },
+  { id: "inputChars", label: "Characters" },
+  { id: "outputSeconds", label: "Audio" },
+  { id: "cost", label: "Cost (USD)" },
+];
+
+/** A limit the next generation would exceed. */
+export interface LimitBreach {
+  period: UsagePeriod;
+  metric: UsageMetric;
+  level: "soft" | "hard";
+  limit: number;
+  /** Usage in the period including the next generation. */
+  projected: number;
+}
+
+export const estimateTokens = (chars: number): number => Math.ceil(chars / CHARS_PER_TOKEN);
+
+export const estimateCost = (model: string, inputTokens: number, outputSeconds: number): number => {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (inputTokens * pricing.input + outputSeconds * AUDIO_TOKENS_PER_SECOND * pricing.output) / 1_000_000;
+};
+
+/**
+ * Estimates the usage of generating a story, assuming none of it is cached yet.
+ * Chunks are planned exactly as `synthesizeStory` would plan them.
+ */
+export const estimateUsage = (
+  config: TTSConfig,
+  provider: TTSProvider,
+  model: string,
+  maxChunkChars: number = DEFAULT_MAX_CHUNK_CHARS,
+): UsageEstimate => {
+  const markup = parseMarkup(config.text, { voices: provider.listVoices(), allowVoiceSwitch: config.mode !== "dialogue" });
+  const chunks = planChunks(config, maxChunkChars, provider.capabilities.multiSpeaker, markup.errors.length > 0 ? [] : markup.tags);
+
+  let spokenChars = 0;
+  let inputChars = 0;
+  for (const chunk of chunks) {
+    spokenChars += chunk.text.length;
+    inputChars += chunk.text.length + (resolveChunkStyle(config.style, chunk)?.length ?? 0);
+  }
+  const inputTokens = estimateTokens(inputChars);
+  const outputSeconds = spokenChars / SPOKEN_CHARS_PER_SECOND;
+  return {
+    requests: chunks.length,
+    inputChars,
+    inputTokens,
+    outputSeconds,
+    cost: estimateCost(model, inputTokens, outputSeconds),
+  };
+};
+
+/**
+ * Builds the record of a generation from the last progress report of its synthesis.
+ */
+export const createUsageRecord = (
+  progress: SynthesisProgress,
+  details: Pick<UsageRecord, "source" | "providerId" | "model" | "title" | "outcome">,
+): UsageRecord => {
+  const inputTokens = estimateTokens(progress.inputChars);
+  return {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    ...details,
+    requests: progress.requests,
+    cachedChunks: progress.cached,
+    inputChars: progress.inputChars,
+    inputTokens,
+    outputSeconds: progress.outputSeconds,
+    cost: estimateCost(details.model, inputTokens, progress.outputSeconds),
+  };
+};
+
+export const loadUsageRecords = (): UsageRecord[] => {
+  try {
+    const stored = localStorage.getItem(RECORDS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to load usage records:", error);
+    return [];
+  }
+};
+
+export const saveUsageRecords = (records: UsageRecord[]): void => {
+  try {
+    localStorage.setItem(RECORDS_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.warn("Failed to save usage records:", error);
+  }
+};
+
+/**
+ * Appends a record to the stored ones, dropping records past the retention period.
+ * @returns The stored records.
+ */
+export const appendUsageRecord = (record: UsageRecord): UsageRecord[] => {
+  const cutoff = Date.now() - RETENTION_DAYS * 86_400_000;
+  const records = [...loadUsageRecords().filter(r => r.timestamp >= cutoff), record];
+  saveUsageRecords(records);
+  return records;
+};
+
+export const loadUsageLimits = (): UsageLimits => {
+  try {
+    const stored = localStorage.getItem(LIMITS_KEY);
+    return stored ? { ...EMPTY_USAGE_LIMITS, ...JSON.parse(stored) } : EMPTY_USAGE_LIMITS;
+  } catch (error) {
+    console.warn("Failed to load usage limits:", error);
+    return EMPTY_USAGE_LIMITS;
+  }
+};
+
+export const saveUsageLimits = (limits: UsageLimits): void => {
+  try {
+    localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+  } catch (error) {
+    console.warn("Failed to save usage limits:", error);
+  }
+};
+
+/** Start of the local day or month containing `now`. */
+export const periodStart = (period: UsagePeriod, now: number = Date.now()): number => {
+  const date = new Date(now);
+  return period === "day"
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => ({
+    // Voice auditions cost requests but are not generations of a story
+    generations: totals.generations + (record.source === "audition" ? 0 : 1),
+    requests: totals.requests + record.requests,
+    cachedChunks: totals.cachedChunks + record.cachedChunks,
+    inputChars: totals.inputChars + record.inputChars,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputSeconds: totals.outputSeconds + record.outputSeconds,
+    cost: totals.cost + record.cost,
+  }), { generations: 0, requests: 0, cachedChunks: 0, inputChars: 0, inputTokens: 0, outputSeconds: 0, cost: 0 });
+
+export const usageInPeriod = (records: UsageRecord[], period: UsagePeriod, now: number = Date.now()): UsageTotals => {
+  const start = periodStart(period, now);
+  return sumUsage(records.filter(record => record.timestamp >= start));
+};
+
+/**
+ * Totals for each of the last `days` days, most recent first.
+ */
+export const usageByDay = (records: UsageRecord[], days: number, now: number = Date.now()): { day: number; totals: UsageTotals }[] => {
+  const today = new Date(periodStart("day", now));
+  return Array.from({ length: days }, (_, i) => {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i).getTime();
+    const next = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i + 1).getTime();
+    return { day, totals: sumUsage(records.filter(record => record.timestamp >= day && record.timestamp < next)) };
+  });
+};
+
+/**
+ * Checks the usage so far plus `estimate` against the limits. Hard breaches come first.
+ */
+export const checkUsageLimits = (
+  records: UsageRecord[],
+  limits: UsageLimits,
+  estimate: UsageEstimate,
+  now: number = Date.now(),
+): LimitBreach[] => {
+  const breaches: LimitBreach[] = [];
+  for (const period of ["day", "month"] as const) {
+    const used = usageInPeriod(records, period, now);
+    for (const { id: metric } of USAGE_METRICS) {
+      const { soft, hard } = limits[period][metric] ?? {};
+      const projected = used[metric] + estimate[metric];
+      if (hard !== undefined && projected > hard) {
+        breaches.push({ period, metric, level: "hard", limit: hard, projected });
+      } else if (soft !== undefined && projected > soft) {
+        breaches.push({ period, metric, level: "soft", limit: soft, projected });
+      }
+    }
+  }
+  return breaches.sort((a, b) => (a.level === b.level ? 0 : a.level === "hard" ? -1 : 1));
+};
+
+export const formatUsageValue = (metric: UsageMetric, value: number): string => {
+  switch (metric) {
+    case "outputSeconds":
+      return formatDuration(value);
+    case "cost":
+      return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+    default:
+      return Math.round(value).toLocaleString();
+  }
+};
+
+export const describeBreach = (breach: LimitBreach): string => {
+  const label = USAGE_METRICS.find(m => m.id === breach.metric)!.label.toLowerCase();
+  const period = breach.period === "day" ? "today's" : "this month's";
+  const verb = breach.level === "hard" ? "limit" : "warning level";
+  return `This would bring ${period} ${label} to ${formatUsageValue(breach.metric, breach.projected)}, over the ${verb} of ${formatUsageValue(breach.metric, breach.limit)}.`;
+};
+
+const CSV_COLUMNS: { header: string; value: (record: UsageRecord) => string | number }[] = [
+  { header: "timestamp", value: r => new Date(r.timestamp).toISOString() },
+  { header: "source", value: r => r.source },
+  { header: "provider", value: r => r.providerId },
+  { header: "model", value: r => r.model },
+  { header: "title", value: r => r.title },
+  { header: "outcome", value: r => r.outcome },
+  { header: "requests", value: r => r.requests },
+  { header: "cached_chunks", value: r => r.cachedChunks },
+  { header: "input_chars", value: r => r.inputChars },
+  { header: "input_tokens_estimated", value: r => r.inputTokens },
+  { header: "output_seconds", value: r => r.outputSeconds.toFixed(2) },
+  { header: "cost_usd_estimated", value: r => r.cost.toFixed(6) },
+];
+
+const csvField = (value: string | number): string => {
+  // Titles are user text; a leading = + - @ would be run as a formula by spreadsheets
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes usage records as CSV, oldest first.
+ */
+export const exportUsageCsv = (records: UsageRecord[]): Blob => {
+  const rows = [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(record => CSV_COLUMNS.map(column => csvField(column.value(record))).join(","));
+  const csv = [CSV_COLUMNS.map(column => column.header).join(","), ...rows].join("\r\n");
+  return new Blob([csv], { type: "text/csv" });
+};
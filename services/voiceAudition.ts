@@ -0,0 +1,177 @@
+import { SpeechRequest, SynthesisProgress, TTSProvider, VoiceName } from "../types";
+import { computeCacheKey, getCachedAudio, putCachedAudio } from "./audioCache";
+import { UsageEstimate, UsageOutcome, estimateUsage } from "./usageMeter";
+import { decodeAudioData, stitchAudioBuffers } from "../utils/audioUtils";
+import { splitSentences } from "../utils/textChunker";
+
+/**
+ * Voice auditions: a short sample of the user's own text read by one voice, or by
+ * two voices back to back for comparison. Samples go through the audio cache, so
+ * auditioning a voice again with the same text costs no request; the requests that
+ * are made count towards the usage limits like any generation.
+ */
+
+// Longest audition sample; the first sentence is cut at a word boundary beyond this
+const AUDITION_MAX_CHARS = 160;
+const DEFAULT_AUDITION_TEXT = "Once upon a time, in a quiet village by the sea, a story was waiting to be told.";
+// Silence between the two voices of a comparison
+const COMPARE_GAP_SECONDS = 0.8;
+// Favourite voices, in the order they were starred
+const FAVORITES_KEY = "storyteller.favoriteVoices";
+
+/**
+ * Picks the sample sentence for auditions: the first sentence of the story, or a
+ * stock sentence when the story is empty.
+ */
+export const pickAuditionText = (text: string): string => {
+  const trimmed = text.trim();
+  const first = splitSentences(trimmed)[0];
+  if (!first) return DEFAULT_AUDITION_TEXT;
+
+  const sentence = trimmed.slice(first.start, first.end).replace(/\s+/g, " ");
+  if (sentence.length <= AUDITION_MAX_CHARS) return sentence;
+  const cut = sentence.lastIndexOf(" ", AUDITION_MAX_CHARS);
+  return `${sentence.slice(0, cut > 0 ? cut : AUDITION_MAX_CHARS)}…`;
+};
+
+export interface AuditionOptions {
+  signal?: AbortSignal;
+  /** Called with the expected usage before any billed request; throwing stops the audition. */
+  beforeRequest?: (estimate: UsageEstimate) => void;
+  /** Called once billed requests have finished, failed or been cancelled, with what they used. */
+  onUsage?: (progress: SynthesisProgress, outcome: UsageOutcome) => void;
+}
+
+/**
+ * Synthesizes short samples, from the cache where one was requested before. Only
+ * cache misses are requests, so only they are checked and metered.
+ */
+const runSamples = async (
+  provider: TTSProvider,
+  model: string,
+  requests: SpeechRequest[],
+  ctx: AudioContext,
+  options: AuditionOptions,
+): Promise<{ buffer: AudioBuffer; cached: boolean }[]> => {
+  const samples = await Promise.all(requests.map(async request => {
+    const key = await computeCacheKey(request, provider.id, model);
+    return { request, key, hit: await getCachedAudio(key).catch(() => null) };
+  }));
+
+  const missed = samples.filter(sample => !sample.hit).map(sample => sample.request);
+  if (missed.length > 0 && options.beforeRequest) {
+    const estimates = missed.map(request => estimateUsage({ text: request.text, voice: request.voice }, provider, model));
+    options.beforeRequest({
+      requests: estimates.reduce((sum, e) => sum + e.requests, 0),
+      inputChars: estimates.reduce((sum, e) => sum + e.inputChars, 0),
+      inputTokens: estimates.reduce((sum, e) => sum + e.inputTokens, 0),
+      outputSeconds: estimates.reduce((sum, e) => sum + e.outputSeconds, 0),
+      cost: estimates.reduce((sum, e) => sum + e.cost, 0),
+    });
+  }
+
+  const sampleRate = provider.capabilities.sampleRate;
+  let completed = 0;
+  let requestCount = 0;
+  let inputChars = 0;
+  let outputSeconds = 0;
+  let outcome: UsageOutcome = "failed";
+  try {
+    const results = await Promise.all(samples.map(async ({ request, key, hit }) => {
+      if (hit) {
+        const buffer = await decodeAudioData(hit.pcm, ctx, hit.sampleRate);
+        completed++;
+        return { buffer, cached: true };
+      }
+      requestCount++;
+      inputChars += request.text.length + (request.style?.length ?? 0);
+      const pcm = await provider.synthesize(request, { model, signal: options.signal });
+      putCachedAudio(key, pcm, sampleRate).catch(error => console.warn("Failed to cache sample:", error));
+      const buffer = await decodeAudioData(pcm, ctx, sampleRate);
+      completed++;
+      outputSeconds += buffer.duration;
+      return { buffer, cached: false };
+    }));
+    outcome = "completed";
+    return results;
+  } catch (error) {
+    if (options.signal?.aborted) outcome = "cancelled";
+    throw error;
+  } finally {
+    if (requestCount > 0) {
+      options.onUsage?.({
+        completed,
+        total: samples.length,
+        cached: samples.length - missed.length,
+        requests: requestCount,
+        inputChars,
+        outputSeconds,
+      }, outcome);
+    }
+  }
+};
+
+/**
+ * Synthesizes `text` in one voice, from the cache when it was auditioned before.
+ */
+export const auditionVoice = async (
+  provider: TTSProvider,
+  model: string,
+  voice: VoiceName,
+  text: string,
+  ctx: AudioContext,
+  options: AuditionOptions = {},
+): Promise<{ buffer: AudioBuffer; cached: boolean }> => {
+  const [result] = await runSamples(provider, model, [{ text, voice }], ctx, options);
+  return result;
+};
+
+/**
+ * Synthesizes one prepared request, such as a pronunciation test, through the same
+ * cache and metering as auditions.
+ */
+export const synthesizeSample = async (
+  provider: TTSProvider,
+  model: string,
+  request: SpeechRequest,
+  ctx: AudioContext,
+  options: AuditionOptions = {},
+): Promise<{ buffer: AudioBuffer; cached: boolean }> => {
+  const [result] = await runSamples(provider, model, [request], ctx, options);
+  return result;
+};
+
+/**
+ * Reads the same text in two voices, joined with a short pause, for an A/B comparison.
+ * @returns The joined audio and the time the second voice starts, in seconds.
+ */
+export const compareVoices = async (
+  provider: TTSProvider,
+  model: string,
+  voices: [VoiceName, VoiceName],
+  text: string,
+  ctx: AudioContext,
+  options: AuditionOptions = {},
+): Promise<{ buffer: AudioBuffer; secondStart: number }> => {
+  const [a, b] = await runSamples(provider, model, voices.map(voice => ({ text, voice })), ctx, options);
+  const buffer = stitchAudioBuffers([a.buffer, b.buffer], ctx, { gapSeconds: COMPARE_GAP_SECONDS, crossfadeSeconds: 0 });
+  return { buffer, secondStart: a.buffer.duration + COMPARE_GAP_SECONDS };
+};
+
+export const loadFavoriteVoices = (): VoiceName[] => {
+  try {
+    const stored = localStorage.getItem(FAVORITES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to load favourite voices:", error);
+    return [];
+  }
+};
+
+export const saveFavoriteVoices = (voices: VoiceName[]): void => {
+  try {
+    localStorage.setItem(FAVORITES_KEY, JSON.stringify(voices));
+  } catch (error) {
+    console.warn("Failed to save favourite voices:", error);
+  }
+};
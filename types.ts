@@ -1,14 +1,54 @@
-export enum VoiceName {
-  Kore = 'Kore',
-  Puck = 'Puck',
-  Charon = 'Charon',
-  Fenrir = 'Fenrir',
-  Zephyr = 'Zephyr',
+import type { VoiceName } from './utils/voiceCatalog';
+
+/** A Gemini prebuilt voice; see `utils/voiceCatalog.ts` for the full list. */
+export type { VoiceName };
+
+export type StoryMode = 'narration' | 'dialogue';
+
+/** Maps a speaker name detected in a dialogue script to the voice that reads it. */
+export type VoiceCasting = Record<string, VoiceName>;
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: VoiceName;
+}
+
+/** A single request to the speech model. */
+export interface SpeechRequest {
+  text: string;
+  voice: VoiceName;
+  /** When set, the text is a `Speaker: line` script read with these voices. */
+  speakers?: SpeakerVoice[];
+  /** Natural-language delivery direction, e.g. "Read slowly and dramatically". Never spoken. */
+  style?: string;
+}
+
+/** Delivery direction for a story. */
+export interface StyleConfig {
+  /** Direction for the whole story; empty for the model's default read. */
+  direction: string;
+  /**
+   * Directions for individual paragraphs (dialogue lines in dialogue mode), by
+   * index, replacing the global one. Packed two-speaker chunks follow their first line.
+   */
+  paragraphs?: Record<number, string>;
 }
 
 export interface TTSConfig {
   text: string;
   voice: VoiceName;
+  mode?: StoryMode;
+  casting?: VoiceCasting;
+  style?: StyleConfig;
+}
+
+/** A single spoken line of a dialogue script, e.g. `Rita: Namaste!` */
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+  /** Character offsets of the spoken text (without the speaker prefix). */
+  start: number;
+  end: number;
 }
 
 export interface AudioState {
@@ -17,3 +57,81 @@ export interface AudioState {
   error: string | null;
   audioBuffer: AudioBuffer | null;
 }
+
+/**
+ * A slice of the story text synthesized in a single TTS request.
+ * `start`/`end` are character offsets into the original text.
+ */
+export interface TextChunk {
+  text: string;
+  paragraphIndex: number;
+  start: number;
+  end: number;
+  /** Voice override for this chunk (e.g. a dialogue speaker). */
+  voice?: VoiceName;
+  /** Speaker voices when the chunk is synthesized as a multi-speaker conversation. */
+  speakers?: SpeakerVoice[];
+  /** Silence before the chunk written in the markup, in seconds. */
+  pauseBefore?: number;
+}
+
+export interface SynthesisProgress {
+  completed: number;
+  total: number;
+  /** How many of the completed chunks were served from the audio cache. */
+  cached: number;
+  /** Requests sent to the provider so far, retries included. */
+  requests: number;
+  /** Characters of text and style direction sent with those requests. */
+  inputChars: number;
+  /** Seconds of audio generated by the provider; cache hits are not counted. */
+  outputSeconds: number;
+}
+
+export interface TTSCapabilities {
+  /** Whether a single request can voice a `Speaker: line` script with several voices. */
+  multiSpeaker: boolean;
+  /** Maximum number of speakers per multi-speaker request. */
+  maxSpeakers: number;
+  /** Whether audio can be streamed back while it is being generated. */
+  streaming: boolean;
+  /** Sample rate of the 16-bit mono PCM the provider returns. */
+  sampleRate: number;
+}
+
+export interface SynthesizeOptions {
+  model: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A text-to-speech backend. Providers return raw little-endian 16-bit mono PCM at
+ * `capabilities.sampleRate`.
+ */
+export interface TTSProvider {
+  id: string;
+  label: string;
+  models: string[];
+  defaultModel: string;
+  capabilities: TTSCapabilities;
+  /** Whether the provider can be used right now (e.g. an API key is set). */
+  isConfigured: () => boolean;
+  listVoices: () => VoiceName[];
+  synthesize: (request: SpeechRequest, options: SynthesizeOptions) => Promise<Uint8Array>;
+  synthesizeStream?: (request: SpeechRequest, options: SynthesizeOptions) => AsyncGenerator<Uint8Array>;
+}
+
+/** A span of the story text with the time range in which it is spoken. */
+export interface TimedSpan {
+  /** Character offsets into the story text. */
+  start: number;
+  end: number;
+  /** Seconds on the stitched timeline. */
+  startTime: number;
+  endTime: number;
+}
+
+/** A sentence with estimated timing, including per-word timing. */
+export interface TimedSegment extends TimedSpan {
+  words: TimedSpan[];
+}
@@ -0,0 +1,57 @@
+import { AudioFormat, DEFAULT_WAV_OPTIONS, WavOptions, audioBufferToWav, resampleAudioBuffer, transcodeToBlob } from './audioUtils';
+import { encodeInWorker } from './encoders/encoderClient';
+import { DEFAULT_FLAC_OPTIONS, FlacOptions } from './encoders/flac';
+import { DEFAULT_MP3_OPTIONS, Mp3Options } from './encoders/mp3';
+
+export interface ExportOptions {
+  /** Resample to this rate (e.g. 44100 or 48000) before encoding. */
+  sampleRate?: number;
+  wav?: Partial<WavOptions>;
+  mp3?: Partial<Mp3Options>;
+  flac?: Partial<FlacOptions>;
+  /** Called with a 0-1 fraction while an encoder-backed format is encoded. */
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Encodes an AudioBuffer in the given format. WAV is encoded directly, MP3 and
+ * FLAC in a worker at CPU speed, other formats go through the (real-time)
+ * MediaRecorder transcoder.
+ * @param buffer The audio to export.
+ * @param format One of the formats returned by `getSupportedFormats`.
+ * @param options Encoder settings and progress callback.
+ * @returns The encoded file.
+ */
+export async function exportAudioBuffer(buffer: AudioBuffer, format: AudioFormat, options: ExportOptions = {}): Promise<Blob> {
+  if (options.sampleRate) {
+    buffer = await resampleAudioBuffer(buffer, options.sampleRate);
+  }
+  if (format.mimeType === 'audio/wav') {
+    // Fast path for WAV
+    return audioBufferToWav(buffer, { ...DEFAULT_WAV_OPTIONS, ...options.wav });
+  }
+  if (format.encoder === 'mp3') {
+    const bytes = await encodeInWorker(buffer, { format: 'mp3', options: { ...DEFAULT_MP3_OPTIONS, ...options.mp3 } }, options.onProgress);
+    return new Blob([bytes], { type: format.mimeType });
+  }
+  if (format.encoder === 'flac') {
+    const bytes = await encodeInWorker(buffer, { format: 'flac', options: { ...DEFAULT_FLAC_OPTIONS, ...options.flac } }, options.onProgress);
+    return new Blob([bytes], { type: format.mimeType });
+  }
+  return transcodeToBlob(buffer, format.mimeType);
+}
+
+/**
+ * Triggers a browser download of `blob` under `filename`.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
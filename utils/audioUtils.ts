@@ -13,6 +13,21 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Concatenates several byte arrays into a single Uint8Array.
+ * @param parts The byte arrays to join, in order.
+ * @returns A new Uint8Array holding all bytes.
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
 /**
  * Decodes raw PCM data (Int16) into an AudioBuffer.
  * This is necessary because the Gemini API returns raw PCM without headers.
@@ -47,61 +62,261 @@ export async function decodeAudioData(
   return buffer;
 }
 
+/**
+ * Encodes an AudioBuffer as raw interleaved little-endian 16-bit PCM,
+ * the inverse of `decodeAudioData`.
+ * @param buffer The AudioBuffer to encode.
+ * @returns The PCM bytes.
+ */
+export function audioBufferToPcm16(buffer: AudioBuffer): Uint8Array {
+  const numChannels = buffer.numberOfChannels;
+  const bytes = new Uint8Array(buffer.length * numChannels * 2);
+  const view = new DataView(bytes.buffer);
+  const channels = Array.from({ length: numChannels }, (_, c) => buffer.getChannelData(c));
+
+  let offset = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < numChannels; channel++, offset += 2) {
+      const s = Math.max(-1, Math.min(1, channels[channel][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+    }
+  }
+  return bytes;
+}
+
+// --- Stitching Utilities ---
+
+export interface StitchOptions {
+  /** Silence inserted between consecutive buffers, in seconds. */
+  gapSeconds: number;
+  /** Length of the fade applied at each joint, in seconds. */
+  crossfadeSeconds: number;
+}
+
+export const DEFAULT_STITCH_OPTIONS: StitchOptions = {
+  gapSeconds: 0.35,
+  crossfadeSeconds: 0.03,
+};
+
+/**
+ * Computes where each buffer starts (in seconds) on the stitched timeline.
+ * Each buffer starts `gapSeconds - crossfadeSeconds` after the previous one ends,
+ * so the faded edges overlap; with no gap this becomes a true crossfade.
+ *
+ * @param durations Duration of each buffer in seconds.
+ * @param options Gap and crossfade lengths.
+ * @param gaps Optional per-buffer gap before each buffer, overriding `gapSeconds`.
+ * @returns Start time of each buffer in seconds.
+ */
+export function computeStitchOffsets(
+  durations: number[],
+  options: StitchOptions = DEFAULT_STITCH_OPTIONS,
+  gaps?: number[],
+): number[] {
+  const offsets: number[] = [];
+  let cursor = 0;
+
+  durations.forEach((duration, i) => {
+    const gap = gaps?.[i] ?? options.gapSeconds;
+    const start = i === 0 ? 0 : Math.max(offsets[i - 1], cursor + gap - options.crossfadeSeconds);
+    offsets.push(start);
+    cursor = start + duration;
+  });
+
+  return offsets;
+}
+
+/**
+ * Applies equal-power fades to the edges of an AudioBuffer in place.
+ * Fades are clamped to half the buffer length so short buffers are never inverted.
+ */
+export function applyEdgeFades(buffer: AudioBuffer, fadeSeconds: number, fadeIn: boolean = true, fadeOut: boolean = true): void {
+  const fadeFrames = Math.min(Math.floor(fadeSeconds * buffer.sampleRate), Math.floor(buffer.length / 2));
+  if (fadeFrames <= 0) return;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < fadeFrames; i++) {
+      const gain = Math.sin((i / fadeFrames) * (Math.PI / 2));
+      if (fadeIn) data[i] *= gain;
+      if (fadeOut) data[buffer.length - 1 - i] *= gain;
+    }
+  }
+}
+
+/**
+ * Stitches multiple AudioBuffers into a single buffer, inserting silence between
+ * them and crossfading the joints. Inputs are faded in place.
+ *
+ * @param buffers Buffers to join, in playback order. All must share a sample rate.
+ * @param ctx The context used to allocate the output buffer.
+ * @param options Gap and crossfade lengths.
+ * @param gaps Optional per-buffer gap before each buffer, overriding `gapSeconds`.
+ * @returns The stitched AudioBuffer.
+ */
+export function stitchAudioBuffers(
+  buffers: AudioBuffer[],
+  ctx: BaseAudioContext,
+  options: StitchOptions = DEFAULT_STITCH_OPTIONS,
+  gaps?: number[],
+): AudioBuffer {
+  if (buffers.length === 0) {
+    throw new Error("Cannot stitch an empty list of audio buffers.");
+  }
+
+  const sampleRate = buffers[0].sampleRate;
+  const numChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const offsets = computeStitchOffsets(buffers.map(b => b.duration), options, gaps);
+  const startFrames = offsets.map(offset => Math.round(offset * sampleRate));
+  const totalFrames = Math.max(...buffers.map((b, i) => startFrames[i] + b.length));
+
+  const output = ctx.createBuffer(numChannels, totalFrames, sampleRate);
+
+  buffers.forEach((buffer, i) => {
+    applyEdgeFades(buffer, options.crossfadeSeconds, i > 0, i < buffers.length - 1);
+
+    for (let channel = 0; channel < numChannels; channel++) {
+      // Mono inputs are spread across all output channels
+      const input = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+      const out = output.getChannelData(channel);
+      const offset = startFrames[i];
+      for (let j = 0; j < input.length; j++) {
+        out[offset + j] += input[j];
+      }
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Copies the part of a buffer between two times (in seconds) into a new buffer.
+ */
+export function sliceAudioBuffer(buffer: AudioBuffer, startTime: number, endTime: number): AudioBuffer {
+  const start = Math.max(0, Math.min(buffer.length, Math.round(startTime * buffer.sampleRate)));
+  const end = Math.max(start + 1, Math.min(buffer.length, Math.round(endTime * buffer.sampleRate)));
+  const slice = new AudioBuffer({ length: end - start, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    slice.copyToChannel(buffer.getChannelData(channel).subarray(start, end), channel);
+  }
+  return slice;
+}
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavMetadata {
+  title?: string;
+  artist?: string;
+  comment?: string;
+}
+
+/** A labelled position on the timeline, e.g. a paragraph or chapter start. */
+export interface CuePoint {
+  /** Position in seconds. */
+  time: number;
+  label: string;
+}
+
+export interface WavOptions {
+  /** 16 or 24 for integer PCM, 32 for IEEE float. */
+  bitDepth: WavBitDepth;
+  /** Written as a LIST/INFO chunk. */
+  metadata?: WavMetadata;
+  /** Written as cue/adtl chunks so editors show them as labels. */
+  cuePoints?: CuePoint[];
+}
+
+export const DEFAULT_WAV_OPTIONS: WavOptions = {
+  bitDepth: 16,
+};
+
 /**
  * Converts an AudioBuffer to a WAV file Blob.
- * @param buffer The AudioBuffer to convert.
+ * @param buffer The AudioBuffer to convert. All channels are written.
+ * @param options Sample format, metadata tags and cue points.
  * @returns A Blob containing the WAV file data.
  */
-export function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const numChannels = buffer.numberOfChannels;
-  const sampleRate = buffer.sampleRate;
-  const format = 1; // PCM
-  const bitDepth = 16;
+export function audioBufferToWav(buffer: AudioBuffer, options: WavOptions = DEFAULT_WAV_OPTIONS): Blob {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const format = options.bitDepth === 32 ? 3 : 1; // IEEE float : PCM
+  const samples = interleave(channels);
 
-  let result: Float32Array;
-  if (numChannels === 2) {
-    result = interleave(buffer.getChannelData(0), buffer.getChannelData(1));
-  } else {
-    result = buffer.getChannelData(0);
+  const chunks: Uint8Array[] = [];
+  if (options.metadata) {
+    const info = createInfoChunk(options.metadata);
+    if (info) chunks.push(info);
+  }
+  if (options.cuePoints?.length) {
+    const frames = options.cuePoints.map(cue => Math.max(0, Math.min(buffer.length - 1, Math.round(cue.time * buffer.sampleRate))));
+    chunks.push(createCueChunk(frames), createLabelChunk(options.cuePoints.map(cue => cue.label)));
   }
 
-  return encodeWAV(result, format, sampleRate, numChannels, bitDepth);
+  return encodeWAV(samples, format, buffer.sampleRate, channels.length, options.bitDepth, chunks);
+}
+
+/**
+ * Resamples an AudioBuffer with an OfflineAudioContext (e.g. 24 kHz to 44.1 or 48 kHz).
+ */
+export async function resampleAudioBuffer(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer;
+
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start(0);
+  return ctx.startRendering();
 }
 
-function interleave(inputL: Float32Array, inputR: Float32Array): Float32Array {
-  const length = inputL.length + inputR.length;
-  const result = new Float32Array(length);
+function interleave(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
 
-  let index = 0;
-  let inputIndex = 0;
+  const numChannels = channels.length;
+  const frames = channels[0].length;
+  const result = new Float32Array(frames * numChannels);
 
-  while (index < length) {
-    result[index++] = inputL[inputIndex];
-    result[index++] = inputR[inputIndex];
-    inputIndex++;
+  for (let frame = 0, index = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      result[index++] = channels[channel][frame];
+    }
   }
   return result;
 }
 
-function encodeWAV(samples: Float32Array, format: number, sampleRate: number, numChannels: number, bitDepth: number): Blob {
+function encodeWAV(
+  samples: Float32Array,
+  format: number,
+  sampleRate: number,
+  numChannels: number,
+  bitDepth: number,
+  extraChunks: Uint8Array[] = [],
+): Blob {
   const bytesPerSample = bitDepth / 8;
   const blockAlign = numChannels * bytesPerSample;
+  const dataLength = samples.length * bytesPerSample;
+  // More than two channels needs WAVE_FORMAT_EXTENSIBLE so players know the layout
+  const extensible = numChannels > 2;
+  const fmtLength = extensible ? 40 : 16;
+  const headerLength = 12 + 8 + fmtLength + 8;
+  const extraLength = extraChunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const dataPadding = dataLength % 2;
 
-  const buffer = new ArrayBuffer(44 + samples.length * bytesPerSample);
+  const buffer = new ArrayBuffer(headerLength + dataLength + dataPadding + extraLength);
   const view = new DataView(buffer);
 
   /* RIFF identifier */
   writeString(view, 0, 'RIFF');
   /* RIFF chunk length */
-  view.setUint32(4, 36 + samples.length * bytesPerSample, true);
+  view.setUint32(4, buffer.byteLength - 8, true);
   /* RIFF type */
   writeString(view, 8, 'WAVE');
   /* format chunk identifier */
   writeString(view, 12, 'fmt ');
   /* format chunk length */
-  view.setUint32(16, 16, true);
+  view.setUint32(16, fmtLength, true);
   /* sample format (raw) */
-  view.setUint16(20, format, true);
+  view.setUint16(20, extensible ? 0xFFFE : format, true);
   /* channel count */
   view.setUint16(22, numChannels, true);
   /* sample rate */
@@ -112,20 +327,94 @@ function encodeWAV(samples: Float32Array, format: number, sampleRate: number, nu
   view.setUint16(32, blockAlign, true);
   /* bits per sample */
   view.setUint16(34, bitDepth, true);
+  if (extensible) {
+    /* extension size, valid bits, channel mask (front channels first) */
+    view.setUint16(36, 22, true);
+    view.setUint16(38, bitDepth, true);
+    view.setUint32(40, numChannels >= 32 ? 0xFFFFFFFF : (2 ** numChannels) - 1, true);
+    /* sub format GUID: format tag followed by the fixed KSDATAFORMAT suffix */
+    view.setUint32(44, format, true);
+    [0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71]
+      .forEach((byte, i) => view.setUint8(48 + i, byte));
+  }
   /* data chunk identifier */
-  writeString(view, 36, 'data');
+  writeString(view, headerLength - 8, 'data');
   /* data chunk length */
-  view.setUint32(40, samples.length * bytesPerSample, true);
+  view.setUint32(headerLength - 4, dataLength, true);
 
-  if (format === 1) { // PCM
-    floatTo16BitPCM(view, 44, samples);
+  if (bitDepth === 32) {
+    writeFloat32(view, headerLength, samples);
+  } else if (bitDepth === 24) {
+    floatTo24BitPCM(view, headerLength, samples);
   } else {
-    writeFloat32(view, 44, samples);
+    floatTo16BitPCM(view, headerLength, samples);
+  }
+
+  let offset = headerLength + dataLength + dataPadding;
+  const bytes = new Uint8Array(buffer);
+  for (const chunk of extraChunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
   }
 
   return new Blob([view], { type: 'audio/wav' });
 }
 
+/**
+ * Builds a RIFF chunk, padding the payload to an even length as required.
+ */
+function createChunk(id: string, payload: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + payload.byteLength + (payload.byteLength % 2));
+  const view = new DataView(chunk.buffer);
+  writeString(view, 0, id);
+  view.setUint32(4, payload.byteLength, true);
+  chunk.set(payload, 8);
+  return chunk;
+}
+
+const encodeZString = (text: string): Uint8Array => new TextEncoder().encode(`${text}\0`);
+
+function createInfoChunk(metadata: WavMetadata): Uint8Array | null {
+  const fields: [string, string | undefined][] = [
+    ['INAM', metadata.title],
+    ['IART', metadata.artist],
+    ['ICMT', metadata.comment],
+  ];
+  const entries = fields
+    .filter(([, value]) => value?.trim())
+    .map(([id, value]) => createChunk(id, encodeZString(value!.trim())));
+  if (entries.length === 0) return null;
+
+  return createChunk('LIST', concatBytes([new TextEncoder().encode('INFO'), ...entries]));
+}
+
+function createCueChunk(frames: number[]): Uint8Array {
+  const payload = new Uint8Array(4 + frames.length * 24);
+  const view = new DataView(payload.buffer);
+  view.setUint32(0, frames.length, true);
+  frames.forEach((frame, i) => {
+    const offset = 4 + i * 24;
+    view.setUint32(offset, i + 1, true); // cue point ID, referenced by labl
+    view.setUint32(offset + 4, frame, true); // play order position
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true); // chunk start
+    view.setUint32(offset + 16, 0, true); // block start
+    view.setUint32(offset + 20, frame, true); // sample offset
+  });
+  return createChunk('cue ', payload);
+}
+
+function createLabelChunk(labels: string[]): Uint8Array {
+  const entries = labels.map((label, i) => {
+    const text = encodeZString(label);
+    const payload = new Uint8Array(4 + text.byteLength);
+    new DataView(payload.buffer).setUint32(0, i + 1, true);
+    payload.set(text, 4);
+    return createChunk('labl', payload);
+  });
+  return createChunk('LIST', concatBytes([new TextEncoder().encode('adtl'), ...entries]));
+}
+
 function writeString(view: DataView, offset: number, string: string): void {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
@@ -139,6 +428,16 @@ function floatTo16BitPCM(output: DataView, offset: number, input: Float32Array):
   }
 }
 
+function floatTo24BitPCM(output: DataView, offset: number, input: Float32Array): void {
+  for (let i = 0; i < input.length; i++, offset += 3) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    const value = Math.round(s < 0 ? s * 0x800000 : s * 0x7FFFFF);
+    output.setUint8(offset, value & 0xFF);
+    output.setUint8(offset + 1, (value >> 8) & 0xFF);
+    output.setUint8(offset + 2, (value >> 16) & 0xFF);
+  }
+}
+
 function writeFloat32(output: DataView, offset: number, input: Float32Array): void {
   for (let i = 0; i < input.length; i++, offset += 4) {
     output.setFloat32(offset, input[i], true);
@@ -151,15 +450,20 @@ export interface AudioFormat {
   label: string;
   mimeType: string;
   ext: string;
+  /** Set for formats produced by our own encoders instead of MediaRecorder. */
+  encoder?: 'mp3' | 'flac';
 }
 
 /**
- * Returns a list of audio formats supported by the current browser's MediaRecorder.
+ * Returns the audio formats we can export: our own encoders (WAV, MP3, FLAC)
+ * plus whatever the current browser's MediaRecorder supports.
  */
 export function getSupportedFormats(): AudioFormat[] {
-  // WAV is always supported via our custom encoder
+  // WAV, MP3 and FLAC are always supported via our custom encoders
   const formats: AudioFormat[] = [
-    { label: 'WAV (Uncompressed)', mimeType: 'audio/wav', ext: 'wav' }
+    { label: 'WAV (Uncompressed)', mimeType: 'audio/wav', ext: 'wav' },
+    { label: 'MP3', mimeType: 'audio/mpeg', ext: 'mp3', encoder: 'mp3' },
+    { label: 'FLAC (Lossless)', mimeType: 'audio/flac', ext: 'flac', encoder: 'flac' }
   ];
 
   // Candidates for compressed formats
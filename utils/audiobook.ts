@@ -0,0 +1,216 @@
+import { TimedSegment } from '../types';
+import { AudioFormat, sliceAudioBuffer } from './audioUtils';
+import { ExportOptions, exportAudioBuffer } from './audioExport';
+import { encodeM4b, M4bMetadata } from './encoders/m4b';
+import { isChapterHeading, normalizeWhitespace } from './importers/chapters';
+import { splitParagraphs } from './textChunker';
+import { createZip, ZipFile } from './zip';
+
+export type AudiobookFormat = 'm4b' | 'zip';
+
+export interface AudiobookChapter {
+  title: string;
+  /** Seconds on the story timeline. */
+  startTime: number;
+  endTime: number;
+}
+
+export interface AudiobookOptions {
+  format: AudiobookFormat;
+  title: string;
+  artist: string;
+  comment?: string;
+  /** JPEG or PNG cover art. */
+  cover?: { data: Uint8Array; mimeType: string };
+  /** AAC bitrate in kbps, for M4B. */
+  bitrate: number;
+  /** Format of the per-chapter files, for ZIP. */
+  audioFormat: AudioFormat;
+  /** Encoder settings for the per-chapter files, for ZIP. */
+  exportOptions?: ExportOptions;
+}
+
+// Chapters shorter than this are merged into the next one (a title read on its own)
+const MIN_CHAPTER_SECONDS = 1;
+
+/**
+ * Finds the chapter boundaries of a generated story. Chapters start at the
+ * paragraphs holding the given titles (the imported document's chapters, which
+ * `composeChapters` writes as paragraphs of their own), matched in order; without
+ * titles, at paragraphs that read as chapter headings. Audio before the first
+ * chapter becomes an opening chapter named `fallbackTitle`.
+ *
+ * @param text The story text the timing map refers to.
+ * @param timing Sentence timing of the story.
+ * @param duration Length of the story audio, in seconds.
+ * @param titles Chapter titles in story order, if known.
+ * @param fallbackTitle Title of the opening chapter, and of the only chapter when none are found.
+ */
+export function locateChapters(
+  text: string,
+  timing: TimedSegment[],
+  duration: number,
+  titles: string[] | null,
+  fallbackTitle: string,
+): AudiobookChapter[] {
+  const starts: { title: string; offset: number }[] = [];
+  let next = 0;
+
+  for (const paragraph of splitParagraphs(text)) {
+    const line = normalizeWhitespace(text.slice(paragraph.start, paragraph.end));
+    const matches = titles
+      ? next < titles.length && line === normalizeWhitespace(titles[next])
+      : isChapterHeading(line);
+    if (matches) {
+      starts.push({ title: line, offset: paragraph.start });
+      next++;
+    }
+  }
+
+  const chapters: AudiobookChapter[] = [];
+  for (const { title, offset } of starts) {
+    const segment = timing.find(s => s.end > offset);
+    if (!segment) break;
+    chapters.push({ title, startTime: segment.startTime, endTime: duration });
+  }
+
+  if (chapters.length === 0 || chapters[0].startTime >= MIN_CHAPTER_SECONDS) {
+    chapters.unshift({ title: fallbackTitle, startTime: 0, endTime: duration });
+  } else {
+    chapters[0].startTime = 0;
+  }
+
+  const merged: AudiobookChapter[] = [];
+  chapters.forEach((chapter, i) => {
+    const following = chapters[i + 1];
+    if (following && following.startTime - chapter.startTime < MIN_CHAPTER_SECONDS) {
+      following.startTime = chapter.startTime;
+      return;
+    }
+    merged.push({ ...chapter, endTime: following ? following.startTime : duration });
+  });
+  return merged;
+}
+
+/**
+ * Exports a story as one audiobook file: a chaptered M4B, or a ZIP holding one
+ * audio file per chapter with an M3U playlist, `chapters.json` and the cover.
+ * @param onProgress Called with a 0-1 fraction of the whole export.
+ */
+export async function exportAudiobook(
+  buffer: AudioBuffer,
+  chapters: AudiobookChapter[],
+  options: AudiobookOptions,
+  onProgress?: (fraction: number) => void,
+): Promise<Blob> {
+  if (options.format === 'm4b') {
+    const metadata: M4bMetadata = {
+      title: options.title,
+      artist: options.artist,
+      album: options.title,
+      comment: options.comment,
+      cover: options.cover,
+    };
+    return encodeM4b(buffer, { bitrate: options.bitrate, chapters, metadata }, onProgress);
+  }
+
+  const { audioFormat } = options;
+  const digits = Math.max(2, String(chapters.length).length);
+  const files: ZipFile[] = [];
+  const entries: { index: number; title: string; file: string; startTime: number; duration: number }[] = [];
+  let done = 0;
+
+  for (const [i, chapter] of chapters.entries()) {
+    const slice = sliceAudioBuffer(buffer, chapter.startTime, chapter.endTime);
+    // Each chapter counts for its share of the running time
+    const share = slice.duration / buffer.duration;
+    const blob = await exportAudioBuffer(slice, audioFormat, {
+      ...options.exportOptions,
+      wav: { ...options.exportOptions?.wav, metadata: { title: chapter.title, artist: options.artist }, cuePoints: [] },
+      onProgress: onProgress && (fraction => onProgress(done + fraction * share)),
+    });
+    const file = `${String(i + 1).padStart(digits, '0')} - ${safeFileName(chapter.title) || `Chapter ${i + 1}`}.${audioFormat.ext}`;
+    files.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    entries.push({ index: i + 1, title: chapter.title, file, startTime: chapter.startTime, duration: slice.duration });
+    done += share;
+    onProgress?.(done);
+  }
+
+  const playlist = [
+    '#EXTM3U',
+    `#PLAYLIST:${options.title}`,
+    ...entries.flatMap(entry => [`#EXTINF:${Math.round(entry.duration)},${options.artist} - ${entry.title}`, entry.file]),
+  ].join('\n');
+  const metadata = {
+    title: options.title,
+    artist: options.artist,
+    duration: buffer.duration,
+    chapters: entries,
+  };
+
+  const utf8 = new TextEncoder();
+  files.push({ name: 'playlist.m3u', data: utf8.encode(`${playlist}\n`) });
+  files.push({ name: 'chapters.json', data: utf8.encode(JSON.stringify(metadata, null, 2)) });
+  if (options.cover) {
+    files.push({ name: `cover.${options.cover.mimeType === 'image/png' ? 'png' : 'jpg'}`, data: options.cover.data });
+  }
+
+  onProgress?.(1);
+  return createZip(files);
+}
+
+/** Strips characters that are not allowed in file names. */
+export function safeFileName(name: string, maxLength: number = 60): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+}
+
+const COVER_SIZE = 1400;
+
+/**
+ * Draws a plain cover (the title on a gradient) for books without cover art.
+ * @returns PNG image data.
+ */
+export async function renderCover(title: string, subtitle: string): Promise<{ data: Uint8Array; mimeType: string }> {
+  const canvas = new OffscreenCanvas(COVER_SIZE, COVER_SIZE);
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, COVER_SIZE, COVER_SIZE);
+  gradient.addColorStop(0, '#1e3a8a');
+  gradient.addColorStop(1, '#5b21b6');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, COVER_SIZE, COVER_SIZE);
+
+  ctx.fillStyle = '#f8fafc';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = 'bold 110px system-ui, sans-serif';
+  const lines = wrapText(ctx, title, COVER_SIZE * 0.8).slice(0, 5);
+  const lineHeight = 130;
+  const top = COVER_SIZE * 0.45 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, COVER_SIZE / 2, top + i * lineHeight));
+
+  ctx.fillStyle = '#cbd5e1';
+  ctx.font = '56px system-ui, sans-serif';
+  ctx.fillText(subtitle, COVER_SIZE / 2, COVER_SIZE * 0.85, COVER_SIZE * 0.9);
+
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: 'image/png' };
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth` in the context's current font.
+ */
+export function wrapText(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
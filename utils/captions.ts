@@ -0,0 +1,210 @@
+import { TimedSegment, TimedSpan } from '../types';
+
+/** A caption: one or two lines shown for a time range. Offsets point into the story text. */
+export interface CaptionCue extends TimedSpan {
+  lines: string[];
+}
+
+export interface CaptionOptions {
+  /** Longest line, in user-perceived characters (grapheme clusters). */
+  maxLineLength: number;
+  maxLines: number;
+  /** Longest time a cue stays on screen, in seconds. */
+  maxCueSeconds: number;
+}
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueSeconds: 7,
+};
+
+export type CaptionFormat = 'srt' | 'vtt' | 'lrc';
+
+export const CAPTION_FORMATS: { value: CaptionFormat; label: string; mimeType: string }[] = [
+  { value: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+  { value: 'lrc', label: 'LRC (lyrics)', mimeType: 'text/plain' },
+];
+
+// Counts what a reader sees as one character: a Devanagari conjunct with its
+// matras and virama is one cluster, not several code units.
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+function visibleLength(text: string): number {
+  let count = 0;
+  for (const _ of graphemes.segment(text)) count++;
+  return count;
+}
+
+/**
+ * Splits the story's timed sentences into caption cues. A cue never spans two
+ * sentences; a long sentence is split between words so each cue fits
+ * `maxLines` lines of `maxLineLength` and `maxCueSeconds` on screen.
+ *
+ * @param text The story text the timing map refers to, with markup masked.
+ * @param timing Sentence and word timing of the story.
+ */
+export function buildCaptionCues(
+  text: string,
+  timing: TimedSegment[],
+  options: CaptionOptions = DEFAULT_CAPTION_OPTIONS,
+): CaptionCue[] {
+  const maxChars = options.maxLineLength * options.maxLines;
+  const cues: CaptionCue[] = [];
+
+  for (const segment of timing) {
+    let words: TimedSpan[] = [];
+    let length = 0;
+
+    const flush = () => {
+      if (words.length === 0) return;
+      const first = words[0];
+      const last = words[words.length - 1];
+      cues.push({
+        start: first.start,
+        end: last.end,
+        startTime: first.startTime,
+        endTime: last.endTime,
+        lines: wrapCaption(words.map(word => text.slice(word.start, word.end)), options),
+      });
+      words = [];
+      length = 0;
+    };
+
+    for (const word of segment.words) {
+      const wordLength = visibleLength(text.slice(word.start, word.end));
+      const tooLong = length > 0 && length + 1 + wordLength > maxChars;
+      const tooSlow = words.length > 0 && word.endTime - words[0].startTime > options.maxCueSeconds;
+      if (tooLong || tooSlow) flush();
+      length += (length > 0 ? 1 : 0) + wordLength;
+      words.push(word);
+    }
+    flush();
+  }
+
+  return cues;
+}
+
+/**
+ * Wraps words into at most `maxLines` lines, breaking only at spaces (words
+ * longer than a line are broken between grapheme clusters). Two-line captions are
+ * balanced so the lines are of similar length.
+ */
+export function wrapCaption(words: string[], options: CaptionOptions = DEFAULT_CAPTION_OPTIONS): string[] {
+  const pieces = words.flatMap(word => breakLongWord(word, options.maxLineLength));
+  const lines: string[] = [];
+  let line = '';
+
+  for (const piece of pieces) {
+    const candidate = line ? `${line} ${piece}` : piece;
+    if (line && visibleLength(candidate) > options.maxLineLength) {
+      lines.push(line);
+      line = piece;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length >= 2 && options.maxLines === 2) return balanceLines(pieces);
+  if (lines.length > options.maxLines) {
+    // Greedy wrapping can take an extra line for words that fit; the last line takes the rest
+    return [...lines.slice(0, options.maxLines - 1), lines.slice(options.maxLines - 1).join(' ')];
+  }
+  return lines;
+}
+
+/** Splits words into two lines at the break that makes them closest in length. */
+function balanceLines(pieces: string[]): string[] {
+  let best: string[] = [pieces.join(' ')];
+  let bestDifference = Infinity;
+  for (let i = 1; i < pieces.length; i++) {
+    const top = pieces.slice(0, i).join(' ');
+    const bottom = pieces.slice(i).join(' ');
+    const difference = Math.abs(visibleLength(top) - visibleLength(bottom));
+    if (difference < bestDifference) {
+      best = [top, bottom];
+      bestDifference = difference;
+    }
+  }
+  return best;
+}
+
+function breakLongWord(word: string, maxLength: number): string[] {
+  if (visibleLength(word) <= maxLength) return [word];
+  const parts: string[] = [];
+  let part = '';
+  let length = 0;
+  for (const { segment } of graphemes.segment(word)) {
+    if (length === maxLength) {
+      parts.push(part);
+      part = '';
+      length = 0;
+    }
+    part += segment;
+    length++;
+  }
+  if (part) parts.push(part);
+  return parts;
+}
+
+function pad(value: number, digits: number = 2): string {
+  return String(value).padStart(digits, '0');
+}
+
+/** Formats seconds as `hh:mm:ss<separator>mmm`. */
+function formatTimestamp(seconds: number, separator: string): string {
+  const millis = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(millis / 3_600_000);
+  const m = Math.floor(millis / 60_000) % 60;
+  const s = Math.floor(millis / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(millis % 1000, 3)}`;
+}
+
+/** SubRip: numbered cues with comma-separated milliseconds. */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startTime, ',')} --> ${formatTimestamp(cue.endTime, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+/** WebVTT, as used by the HTML `<track>` element. */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.startTime, '.')} --> ${formatTimestamp(cue.endTime, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * LRC lyrics: one line per cue, stamped `[mm:ss.xx]` with its start. An empty
+ * line stamped at the end of a cue clears it when the next cue does not follow
+ * straight on.
+ */
+export function toLrc(cues: CaptionCue[], metadata: { title?: string; artist?: string } = {}): string {
+  const stamp = (seconds: number) => {
+    const centis = Math.max(0, Math.round(seconds * 100));
+    return `[${pad(Math.floor(centis / 6000))}:${pad(Math.floor(centis / 100) % 60)}.${pad(centis % 100)}]`;
+  };
+  const lines: string[] = [];
+  if (metadata.title) lines.push(`[ti:${metadata.title}]`);
+  if (metadata.artist) lines.push(`[ar:${metadata.artist}]`);
+
+  cues.forEach((cue, i) => {
+    lines.push(`${stamp(cue.startTime)}${cue.lines.join(' ')}`);
+    const next = cues[i + 1];
+    if (!next || next.startTime - cue.endTime > 0.5) lines.push(stamp(cue.endTime));
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders cues in the given format.
+ * @returns The caption file, ready to download.
+ */
+export function exportCaptions(cues: CaptionCue[], format: CaptionFormat, metadata: { title?: string; artist?: string } = {}): Blob {
+  const info = CAPTION_FORMATS.find(f => f.value === format)!;
+  const content = format === 'srt' ? toSrt(cues) : format === 'vtt' ? toWebVtt(cues) : toLrc(cues, metadata);
+  return new Blob([content], { type: `${info.mimeType};charset=utf-8` });
+}
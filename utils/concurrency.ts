@@ -0,0 +1,35 @@
+/**
+ * Maps over `items` with an async worker, running at most `limit` workers at once.
+ * Results are returned in input order. The first failure rejects the returned
+ * promise and prevents any further items from being started.
+ *
+ * @param items The inputs to process.
+ * @param limit Maximum number of workers in flight.
+ * @param worker Async function applied to each item.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const runNext = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext);
+  await Promise.all(runners);
+
+  return results;
+}
@@ -0,0 +1,171 @@
+import { DialogueLine, SpeakerVoice, TextChunk, VoiceCasting, VoiceName } from '../types';
+import { chunkText, DEFAULT_MAX_CHUNK_CHARS } from './textChunker';
+import { applyMarkup, maskMarkup, MarkupTag } from './markup';
+import { VOICE_NAMES } from './voiceCatalog';
+
+/** Speaker assigned to lines that carry no `Name:` prefix. */
+export const NARRATOR = 'Narrator';
+
+// Multi-speaker requests (Gemini's config) take exactly two speakers.
+const MAX_MULTI_SPEAKER_VOICES = 2;
+
+// "Name: line" where the name is up to ~30 letters/spaces (any script) before a colon.
+const SPEAKER_LINE = /^([\p{L}\p{M}][\p{L}\p{M}\p{N} .'’-]{0,30}?)\s*[:：]\s*(\S.*)$/u;
+
+/**
+ * Parses a dialogue script into speaker lines. Lines of the form `Rita: ...` are
+ * attributed to the named speaker, any other non-empty line to the narrator.
+ * @param text The script text.
+ * @returns The spoken lines in order, with offsets into `text`.
+ */
+export function parseDialogue(text: string): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  let lineStart = 0;
+
+  for (const rawLine of text.split('\n')) {
+    const leading = rawLine.length - rawLine.trimStart().length;
+    const line = rawLine.trim();
+
+    if (line) {
+      const match = SPEAKER_LINE.exec(line);
+      const speaker = match ? match[1].trim() : NARRATOR;
+      const spoken = match ? match[2] : line;
+      const start = lineStart + leading + line.length - spoken.length;
+      lines.push({ speaker, text: spoken, start, end: start + spoken.length });
+    }
+
+    lineStart += rawLine.length + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Returns the distinct speakers of a parsed script in order of first appearance.
+ */
+export function detectSpeakers(lines: DialogueLine[]): string[] {
+  return Array.from(new Set(lines.map(line => line.speaker)));
+}
+
+/**
+ * Completes a casting for the given speakers. Speakers already cast keep their voice;
+ * the narrator defaults to `narratorVoice` and everyone else gets the least used voice
+ * so characters sound distinct for as long as voices last.
+ */
+export function autoCast(speakers: string[], existing: VoiceCasting, narratorVoice: VoiceName): VoiceCasting {
+  const voices = VOICE_NAMES;
+  const casting: VoiceCasting = {};
+  const usage = new Map<VoiceName, number>(voices.map(v => [v, 0]));
+
+  const assign = (speaker: string, voice: VoiceName) => {
+    casting[speaker] = voice;
+    usage.set(voice, (usage.get(voice) ?? 0) + 1);
+  };
+
+  speakers.forEach(speaker => {
+    if (existing[speaker]) assign(speaker, existing[speaker]);
+    else if (speaker === NARRATOR) assign(speaker, narratorVoice);
+  });
+
+  speakers.forEach(speaker => {
+    if (casting[speaker]) return;
+    const leastUsed = voices.reduce((best, v) => (usage.get(v)! < usage.get(best)! ? v : best), voices[0]);
+    assign(speaker, leastUsed);
+  });
+
+  return casting;
+}
+
+/**
+ * Splits a dialogue script into synthesis chunks.
+ *
+ * With exactly two speakers, consecutive lines are packed into conversation chunks
+ * synthesized with the provider's multi-speaker support. Otherwise every run of lines by
+ * the same speaker becomes its own single-voice chunk.
+ *
+ * @param text The script text.
+ * @param casting Voice for each speaker.
+ * @param fallbackVoice Voice used for speakers missing from `casting`.
+ * @param maxChars Maximum number of characters per chunk.
+ * @param multiSpeaker Whether the provider can voice two-speaker scripts in one request.
+ * @param tags Parsed markup of `text`; lines are cut at pauses, which also end a packed chunk.
+ */
+export function chunkDialogue(
+  text: string,
+  casting: VoiceCasting,
+  fallbackVoice: VoiceName,
+  maxChars: number = DEFAULT_MAX_CHUNK_CHARS,
+  multiSpeaker: boolean = true,
+  tags: MarkupTag[] = [],
+): TextChunk[] {
+  // Pieces of a split line keep the index of the script line they came from
+  const split = parseDialogue(maskMarkup(text, tags)).flatMap((line, index) =>
+    splitLongLine(line, maxChars).map(piece => ({ ...piece, index }))
+  );
+  const lines = applyMarkup(text, split, tags);
+  const speakers = detectSpeakers(lines);
+  const voiceOf = (speaker: string) => casting[speaker] ?? fallbackVoice;
+  const chunks: TextChunk[] = [];
+
+  if (multiSpeaker && speakers.length === MAX_MULTI_SPEAKER_VOICES) {
+    const speakerVoices: SpeakerVoice[] = speakers.map(speaker => ({ speaker, voice: voiceOf(speaker) }));
+    let current: TextChunk | null = null;
+
+    lines.forEach(line => {
+      const scriptLine = `${line.speaker}: ${line.text}`;
+      if (current && !line.pauseBefore && current.text.length + scriptLine.length + 1 <= maxChars) {
+        current.text += `\n${scriptLine}`;
+        current.end = line.end;
+      } else {
+        current = {
+          text: scriptLine,
+          paragraphIndex: line.index,
+          start: line.start,
+          end: line.end,
+          speakers: speakerVoices,
+          pauseBefore: line.pauseBefore,
+        };
+        chunks.push(current);
+      }
+    });
+
+    return chunks;
+  }
+
+  // One speaker, or more than the multi-speaker config supports: synthesize runs per voice
+  lines.forEach((line, index) => {
+    const previous = chunks[chunks.length - 1];
+    const voice = voiceOf(line.speaker);
+    const sameRun = previous && lines[index - 1]?.speaker === line.speaker;
+
+    if (sameRun && !line.pauseBefore && previous.text.length + line.text.length + 1 <= maxChars) {
+      previous.text += `\n${line.text}`;
+      previous.end = line.end;
+    } else {
+      chunks.push({
+        text: line.text,
+        paragraphIndex: line.index,
+        start: line.start,
+        end: line.end,
+        voice,
+        pauseBefore: line.pauseBefore,
+      });
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Splits a line longer than `maxChars` into several lines by the same speaker.
+ */
+function splitLongLine(line: DialogueLine, maxChars: number): DialogueLine[] {
+  if (line.text.length <= maxChars) return [line];
+
+  return chunkText(line.text, maxChars).map(piece => ({
+    speaker: line.speaker,
+    text: piece.text,
+    start: line.start + piece.start,
+    end: line.start + piece.end,
+  }));
+}
@@ -0,0 +1,70 @@
+import { Chapter, blocksFromPlainText, chaptersFromBlocks } from './importers/chapters';
+import { blocksFromMarkdown } from './importers/markdown';
+import { importEpub } from './importers/epub';
+import { importDocx } from './importers/docx';
+import { decodeText, TextEncoding } from './importers/textEncoding';
+
+export type DocumentFormat = 'txt' | 'md' | 'epub' | 'docx';
+
+export interface ImportedDocument {
+  title: string;
+  format: DocumentFormat;
+  chapters: Chapter[];
+  /** Encoding a text file was read with (detected unless chosen). */
+  encoding?: TextEncoding;
+}
+
+export interface ImportOptions {
+  /** Overrides encoding detection for .txt and .md files. */
+  encoding?: TextEncoding;
+}
+
+/** File types accepted by `importDocument`, for an `accept` attribute. */
+export const IMPORT_ACCEPT = '.txt,.text,.md,.markdown,.epub,.docx';
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  epub: 'epub',
+  docx: 'docx',
+};
+
+/**
+ * Imports a document entirely in the browser and splits it into chapters.
+ * @throws If the file type is not supported or the file cannot be read.
+ */
+export async function importDocument(file: File, options: ImportOptions = {}): Promise<ImportedDocument> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const format = FORMATS_BY_EXTENSION[extension];
+  if (!format) {
+    throw new Error(`"${file.name}" is not a supported document. Use .txt, .md, .epub or .docx.`);
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const fileTitle = file.name.replace(/\.[^.]+$/, '');
+
+  switch (format) {
+    case 'epub': {
+      const { title, chapters } = await importEpub(data, fileTitle);
+      return { title, format, chapters };
+    }
+    case 'docx': {
+      const { title = fileTitle, blocks } = await importDocx(data);
+      return { title, format, chapters: requireText(chaptersFromBlocks(blocks, title)) };
+    }
+    default: {
+      const { text, encoding } = decodeText(data, options.encoding);
+      const blocks = format === 'md' ? blocksFromMarkdown(text) : blocksFromPlainText(text);
+      return { title: fileTitle, format, chapters: requireText(chaptersFromBlocks(blocks, fileTitle)), encoding };
+    }
+  }
+}
+
+function requireText(chapters: Chapter[]): Chapter[] {
+  if (chapters.length === 0) {
+    throw new Error('The document contains no text.');
+  }
+  return chapters;
+}
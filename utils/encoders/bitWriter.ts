@@ -0,0 +1,77 @@
+/**
+ * MSB-first bit writer backed by a growable byte buffer, used by the FLAC encoder.
+ */
+export interface BitWriter {
+  /** Writes the low `count` bits of `value` (unsigned, count <= 32). */
+  writeBits: (value: number, count: number) => void;
+  /** Writes `count` zero bits followed by a one bit. */
+  writeUnary: (count: number) => void;
+  /** Pads with zero bits up to the next byte boundary. */
+  alignToByte: () => void;
+  /** Number of whole bytes written so far. */
+  byteLength: () => number;
+  /** Returns a copy of the bytes in [start, end). */
+  slice: (start: number, end?: number) => Uint8Array;
+  /** Returns the written bytes; the writer must be byte aligned. */
+  finish: () => Uint8Array;
+}
+
+export function createBitWriter(initialSize: number = 1 << 16): BitWriter {
+  let bytes = new Uint8Array(initialSize);
+  let length = 0;
+  let current = 0;
+  let used = 0;
+
+  const pushByte = (byte: number) => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = byte;
+  };
+
+  const writeBits = (value: number, count: number) => {
+    while (count > 0) {
+      const free = 8 - used;
+      const take = Math.min(free, count);
+      const shift = count - take;
+      const chunk = (value >>> shift) & ((1 << take) - 1);
+      current |= chunk << (free - take);
+      used += take;
+      count -= take;
+      if (used === 8) {
+        pushByte(current);
+        current = 0;
+        used = 0;
+      }
+    }
+  };
+
+  return {
+    writeBits,
+
+    writeUnary(count) {
+      while (count >= 24) {
+        writeBits(0, 24);
+        count -= 24;
+      }
+      writeBits(1, count + 1);
+    },
+
+    alignToByte() {
+      if (used > 0) writeBits(0, 8 - used);
+    },
+
+    byteLength: () => length,
+
+    slice: (start, end = length) => bytes.slice(start, end),
+
+    finish() {
+      if (used !== 0) {
+        throw new Error("BitWriter is not byte aligned.");
+      }
+      return bytes.slice(0, length);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { FlacOptions } from './flac';
+import { Mp3Options } from './mp3';
+
+/**
+ * Runs the pure TypeScript encoders in a Web Worker so long stories encode at
+ * CPU speed without blocking the UI.
+ */
+
+export type EncoderFormat = 'mp3' | 'flac';
+
+export type EncoderRequest =
+  | { format: 'mp3'; channels: Float32Array[]; sampleRate: number; options: Mp3Options }
+  | { format: 'flac'; channels: Float32Array[]; sampleRate: number; options: FlacOptions };
+
+export type EncoderResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; bytes: Uint8Array }
+  | { type: 'error'; message: string };
+
+/**
+ * Encodes an AudioBuffer in a dedicated worker.
+ * The channel data is copied, so the buffer stays usable for playback.
+ *
+ * @param buffer The audio to encode.
+ * @param request Target format and its options.
+ * @param onProgress Called with a 0-1 fraction while encoding.
+ * @returns The encoded file bytes.
+ */
+export function encodeInWorker(
+  buffer: AudioBuffer,
+  request: { format: 'mp3'; options: Mp3Options } | { format: 'flac'; options: FlacOptions },
+  onProgress?: (fraction: number) => void,
+): Promise<Uint8Array> {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice());
+  const worker = new Worker(new URL('../../workers/encoder.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<Uint8Array>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<EncoderResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+      } else if (message.type === 'done') {
+        resolve(message.bytes);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      reject(new Error(e.message || "The audio encoder failed to start."));
+    };
+
+    const message = { ...request, channels, sampleRate: buffer.sampleRate } as EncoderRequest;
+    worker.postMessage(message, channels.map(channel => channel.buffer));
+  }).finally(() => worker.terminate());
+}
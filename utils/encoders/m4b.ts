@@ -0,0 +1,340 @@
+import { concatBytes, resampleAudioBuffer } from '../audioUtils';
+
+/**
+ * Chaptered M4B (MPEG-4 audiobook) export. Audio is encoded to AAC-LC with the
+ * browser's WebCodecs AudioEncoder and muxed here into a single-track MP4 with
+ * Nero chapter markers (`chpl`) and iTunes metadata (title, artist, album,
+ * comment, cover art, media kind "Audiobook").
+ */
+
+export interface M4bChapter {
+  title: string;
+  /** Start time in seconds. */
+  startTime: number;
+}
+
+export interface M4bMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  comment?: string;
+  /** JPEG or PNG cover art. */
+  cover?: { data: Uint8Array; mimeType: string };
+}
+
+export interface M4bOptions {
+  /** AAC bitrate in kbps. */
+  bitrate: number;
+  chapters: M4bChapter[];
+  metadata: M4bMetadata;
+}
+
+export const M4B_BITRATES = [48, 64, 96, 128];
+export const DEFAULT_M4B_BITRATE = 64;
+
+const AAC_CODEC = 'mp4a.40.2';
+const AAC_FRAME_SIZE = 1024;
+// Frames handed to the encoder per AudioData
+const ENCODE_BLOCK_FRAMES = AAC_FRAME_SIZE * 16;
+// Movie timescale (ms) for mvhd and tkhd durations
+const MOVIE_TIMESCALE = 1000;
+// Nero chapter times are in 100 ns units
+const CHPL_TIMESCALE = 10_000_000;
+const MAX_CHAPTER_TITLE_BYTES = 255;
+const MAX_CHAPTERS = 255;
+// iTunes "stik" media kind for audiobooks
+const MEDIA_KIND_AUDIOBOOK = 2;
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+// Browsers' AAC encoders reliably take only these; other audio (such as the
+// 24 kHz narration) is resampled to the first
+const ENCODER_SAMPLE_RATES = [48000, 44100];
+
+/** The rate audio at `sampleRate` is encoded at. */
+function encoderSampleRate(sampleRate: number): number {
+  return ENCODER_SAMPLE_RATES.includes(sampleRate) ? sampleRate : ENCODER_SAMPLE_RATES[0];
+}
+
+function aacConfig(sampleRate: number, numberOfChannels: number, bitrate: number): AudioEncoderConfig {
+  return {
+    codec: AAC_CODEC,
+    sampleRate,
+    numberOfChannels,
+    bitrate: bitrate * 1000,
+  };
+}
+
+/**
+ * Whether this browser can encode AAC for the given audio, at the rate `encodeM4b`
+ * resamples it to (WebCodecs support for AAC encoding varies by browser and platform).
+ */
+export async function isM4bSupported(buffer: AudioBuffer, bitrate: number = DEFAULT_M4B_BITRATE): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const config = aacConfig(encoderSampleRate(buffer.sampleRate), buffer.numberOfChannels, bitrate);
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encodes a buffer as a chaptered M4B file, resampled to 48 kHz unless it is
+ * already at 44.1 or 48 kHz.
+ * @param onProgress Called with a 0-1 fraction while encoding.
+ */
+export async function encodeM4b(source: AudioBuffer, options: M4bOptions, onProgress?: (fraction: number) => void): Promise<Blob> {
+  const buffer = await resampleAudioBuffer(source, encoderSampleRate(source.sampleRate));
+  const { frames, description } = await encodeAac(buffer, options.bitrate, onProgress);
+  const asc = description ?? audioSpecificConfig(buffer.sampleRate, buffer.numberOfChannels);
+  return new Blob(muxM4b(frames, asc, buffer, options), { type: 'audio/mp4' });
+}
+
+async function encodeAac(
+  buffer: AudioBuffer,
+  bitrate: number,
+  onProgress?: (fraction: number) => void,
+): Promise<{ frames: Uint8Array[]; description?: Uint8Array }> {
+  const frames: Uint8Array[] = [];
+  let description: Uint8Array | undefined;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const bytes = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(bytes);
+      frames.push(bytes);
+      const config = metadata?.decoderConfig?.description;
+      if (config && !description) {
+        description = config instanceof ArrayBuffer
+          ? new Uint8Array(config.slice(0))
+          : new Uint8Array(config.buffer, config.byteOffset, config.byteLength).slice();
+      }
+    },
+    error: (e) => { failure = e instanceof Error ? e : new Error(String(e)); },
+  });
+  encoder.configure(aacConfig(buffer.sampleRate, buffer.numberOfChannels, bitrate));
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  for (let start = 0; start < buffer.length; start += ENCODE_BLOCK_FRAMES) {
+    if (failure) break;
+    const count = Math.min(ENCODE_BLOCK_FRAMES, buffer.length - start);
+    // Planar layout: each channel's block one after another
+    const planar = new Float32Array(count * channels.length);
+    channels.forEach((data, c) => planar.set(data.subarray(start, start + count), c * count));
+
+    const audio = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: count,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((start / buffer.sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(audio);
+    audio.close();
+
+    // Let the encoder drain so memory stays bounded and progress can render
+    if (encoder.encodeQueueSize > 8) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    onProgress?.(Math.min(1, (start + count) / buffer.length));
+  }
+
+  await encoder.flush().catch(e => { failure ??= e; });
+  encoder.close();
+  if (failure) throw failure;
+  return { frames, description };
+}
+
+/**
+ * Builds the two-byte AudioSpecificConfig for AAC-LC, used when the encoder
+ * does not report one.
+ */
+function audioSpecificConfig(sampleRate: number, channels: number): Uint8Array {
+  const objectType = 2; // AAC LC
+  const rateIndex = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  return new Uint8Array([
+    (objectType << 3) | (rateIndex >> 1),
+    ((rateIndex & 1) << 7) | (channels << 3),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// MP4 boxes
+
+const utf8 = new TextEncoder();
+
+function u8(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff]);
+}
+
+function u16(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 8) & 0xff, value & 0xff]);
+}
+
+function u32(value: number): Uint8Array {
+  return new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
+
+function u64(value: number): Uint8Array {
+  return concatBytes([u32(Math.floor(value / 2 ** 32)), u32(value >>> 0)]);
+}
+
+function fourcc(code: string): Uint8Array {
+  return new Uint8Array(Array.from(code, ch => ch.charCodeAt(0) & 0xff));
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([u32(8 + body.length), fourcc(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+}
+
+const zeros = (count: number) => new Uint8Array(count);
+
+// Identity transformation matrix for mvhd and tkhd
+const MATRIX = concatBytes([
+  u32(0x00010000), u32(0), u32(0),
+  u32(0), u32(0x00010000), u32(0),
+  u32(0), u32(0), u32(0x40000000),
+]);
+
+/** MPEG-4 descriptor with a single-byte or expandable length. */
+function descriptor(tag: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  const length = body.length < 0x80
+    ? u8(body.length)
+    : new Uint8Array([0x80 | ((body.length >> 21) & 0x7f), 0x80 | ((body.length >> 14) & 0x7f), 0x80 | ((body.length >> 7) & 0x7f), body.length & 0x7f]);
+  return concatBytes([u8(tag), length, body]);
+}
+
+function esds(asc: Uint8Array, bitrate: number): Uint8Array {
+  return fullBox('esds', 0, 0,
+    descriptor(0x03, u16(1), u8(0),
+      descriptor(0x04,
+        u8(0x40), // Audio ISO/IEC 14496-3
+        u8((0x05 << 2) | 1), // Audio stream
+        new Uint8Array([0, 0x18, 0]), // Buffer size
+        u32(bitrate),
+        u32(bitrate),
+        descriptor(0x05, asc),
+      ),
+      descriptor(0x06, u8(0x02)),
+    ),
+  );
+}
+
+function dataAtom(type: number, value: Uint8Array): Uint8Array {
+  return box('data', u32(type), u32(0), value);
+}
+
+function ilst(metadata: M4bMetadata): Uint8Array {
+  const items: Uint8Array[] = [];
+  const text = (code: string, value?: string) => {
+    if (value) items.push(box(code, dataAtom(1, utf8.encode(value))));
+  };
+  text('©nam', metadata.title);
+  text('©ART', metadata.artist);
+  text('©alb', metadata.album ?? metadata.title);
+  text('©cmt', metadata.comment);
+  text('©gen', 'Audiobook');
+  items.push(box('stik', dataAtom(21, u8(MEDIA_KIND_AUDIOBOOK))));
+  if (metadata.cover) {
+    items.push(box('covr', dataAtom(metadata.cover.mimeType === 'image/png' ? 14 : 13, metadata.cover.data)));
+  }
+  return box('ilst', ...items);
+}
+
+function chpl(chapters: M4bChapter[]): Uint8Array {
+  const entries = chapters.slice(0, MAX_CHAPTERS).map(chapter => {
+    let title = utf8.encode(chapter.title);
+    if (title.length > MAX_CHAPTER_TITLE_BYTES) {
+      // Cut on a character boundary
+      title = utf8.encode(new TextDecoder().decode(title.subarray(0, MAX_CHAPTER_TITLE_BYTES)).replace(/�+$/, ''));
+    }
+    return concatBytes([u64(Math.round(chapter.startTime * CHPL_TIMESCALE)), u8(title.length), title]);
+  });
+  return fullBox('chpl', 1, 0, u32(0), u8(entries.length), ...entries);
+}
+
+/**
+ * Lays out ftyp, moov and mdat. The frames are returned as separate parts rather
+ * than copied into one array, as a long book runs to hundreds of megabytes.
+ */
+function muxM4b(frames: Uint8Array[], asc: Uint8Array, buffer: AudioBuffer, options: M4bOptions): Uint8Array[] {
+  const { sampleRate, numberOfChannels } = buffer;
+  const sampleCount = frames.length;
+  const mediaDuration = sampleCount * AAC_FRAME_SIZE;
+  const movieDuration = Math.round(buffer.duration * MOVIE_TIMESCALE);
+  const bitrate = options.bitrate * 1000;
+
+  // One entry per frame; built as a single payload, since hours of audio are far more
+  // frames than can be passed as arguments
+  const sampleSizes = new Uint8Array(sampleCount * 4);
+  const sampleSizeView = new DataView(sampleSizes.buffer);
+  frames.forEach((frame, i) => sampleSizeView.setUint32(i * 4, frame.length));
+
+  const ftyp = box('ftyp', fourcc('M4B '), u32(0), fourcc('M4B '), fourcc('M4A '), fourcc('mp42'), fourcc('isom'));
+
+  const buildMoov = (chunkOffset: number) => {
+    const mp4a = box('mp4a',
+      zeros(6), u16(1), // reserved, data reference index
+      zeros(8),
+      u16(numberOfChannels), u16(16), u16(0), u16(0),
+      u32(sampleRate << 16),
+      esds(asc, bitrate),
+    );
+
+    const stbl = box('stbl',
+      fullBox('stsd', 0, 0, u32(1), mp4a),
+      fullBox('stts', 0, 0, u32(1), u32(sampleCount), u32(AAC_FRAME_SIZE)),
+      // Every sample in one chunk
+      fullBox('stsc', 0, 0, u32(1), u32(1), u32(sampleCount), u32(1)),
+      fullBox('stsz', 0, 0, u32(0), u32(sampleCount), sampleSizes),
+      fullBox('stco', 0, 0, u32(1), u32(chunkOffset)),
+    );
+
+    const minf = box('minf',
+      fullBox('smhd', 0, 0, u16(0), u16(0)),
+      box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+      stbl,
+    );
+
+    const mdia = box('mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(sampleRate), u32(mediaDuration), u16(0x55c4), u16(0)), // language "und"
+      fullBox('hdlr', 0, 0, u32(0), fourcc('soun'), zeros(12), utf8.encode('SoundHandler\0')),
+      minf,
+    );
+
+    const trak = box('trak',
+      fullBox('tkhd', 0, 0x000003, u32(0), u32(0), u32(1), u32(0), u32(movieDuration), zeros(8),
+        u16(0), u16(0), u16(0x0100), u16(0), MATRIX, u32(0), u32(0)),
+      mdia,
+    );
+
+    const meta = fullBox('meta', 0, 0,
+      fullBox('hdlr', 0, 0, u32(0), fourcc('mdir'), fourcc('appl'), zeros(8), u8(0)),
+      ilst(options.metadata),
+    );
+
+    return box('moov',
+      fullBox('mvhd', 0, 0, u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(movieDuration),
+        u32(0x00010000), u16(0x0100), zeros(10), MATRIX, zeros(24), u32(2)),
+      trak,
+      box('udta', chpl(options.chapters), meta),
+    );
+  };
+
+  // The moov size does not depend on the offset, so measure it once and place mdat after it
+  const moovSize = buildMoov(0).length;
+  const mdatHeaderSize = 8;
+  const moov = buildMoov(ftyp.length + moovSize + mdatHeaderSize);
+  const mdatSize = mdatHeaderSize + frames.reduce((sum, frame) => sum + frame.length, 0);
+
+  return [ftyp, moov, u32(mdatSize), fourcc('mdat'), ...frames];
+}
@@ -0,0 +1,79 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { concatBytes } from '../audioUtils';
+
+/**
+ * MP3 encoding via lamejs (a pure JavaScript port of LAME), so output does not
+ * depend on the browser's MediaRecorder codecs.
+ */
+
+export interface Mp3Options {
+  /** Constant bitrate in kbps. */
+  bitrate: number;
+}
+
+// 160 kbps is the ceiling for the MPEG-2 sample rates (e.g. 24 kHz) Gemini produces
+export const MP3_BITRATES = [64, 96, 128, 160];
+
+export const DEFAULT_MP3_OPTIONS: Mp3Options = {
+  bitrate: 128,
+};
+
+// lamejs works on frames of this many samples per channel
+const FRAME_SIZE = 1152;
+// Frames encoded between progress reports
+const FRAMES_PER_REPORT = 64;
+
+function toInt16(input: Float32Array, start: number, end: number): Int16Array {
+  const output = new Int16Array(end - start);
+  for (let i = start; i < end; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i - start] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return output;
+}
+
+/**
+ * Encodes planar float PCM as a constant-bitrate MP3 file.
+ * MP3 carries at most two channels; additional channels are dropped.
+ *
+ * @param channels One Float32Array per channel, all the same length.
+ * @param sampleRate Sample rate in Hz. Must be one of the MPEG rates (e.g. 24000, 44100, 48000).
+ * @param options Bitrate.
+ * @param onProgress Called with a 0-1 fraction as frames are encoded.
+ * @returns The MP3 file bytes.
+ */
+export function encodeMp3(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: Mp3Options = DEFAULT_MP3_OPTIONS,
+  onProgress?: (fraction: number) => void,
+): Uint8Array {
+  if (channels.length === 0) {
+    throw new Error("Cannot encode audio without channels.");
+  }
+
+  const stereo = channels.length >= 2;
+  const encoder = new Mp3Encoder(stereo ? 2 : 1, sampleRate, options.bitrate);
+  const totalSamples = channels[0].length;
+  const parts: Uint8Array[] = [];
+  let frame = 0;
+
+  for (let offset = 0; offset < totalSamples; offset += FRAME_SIZE, frame++) {
+    const end = Math.min(offset + FRAME_SIZE, totalSamples);
+    const left = toInt16(channels[0], offset, end);
+    const encoded = stereo
+      ? encoder.encodeBuffer(left, toInt16(channels[1], offset, end))
+      : encoder.encodeBuffer(left);
+    if (encoded.length > 0) parts.push(new Uint8Array(encoded));
+
+    if (onProgress && frame % FRAMES_PER_REPORT === 0) {
+      onProgress(end / totalSamples);
+    }
+  }
+
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+  onProgress?.(1);
+
+  return concatBytes(parts);
+}
@@ -0,0 +1,14 @@
+/**
+ * Computes a fast, non-cryptographic 32-bit FNV-1a hash of a string.
+ * Suitable for storage keys, not for anything security related.
+ * @param input The string to hash.
+ * @returns The hash as an 8 character hex string.
+ */
+export function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
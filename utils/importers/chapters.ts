@@ -0,0 +1,134 @@
+/**
+ * Chapter detection shared by the document importers. Importers reduce a file to
+ * a flat list of headings and paragraphs; chapters are cut at the heading level
+ * that structures the document.
+ */
+
+export type DocumentBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string };
+
+export interface Chapter {
+  id: string;
+  title: string;
+  /** Plain text with paragraphs separated by blank lines. */
+  text: string;
+  /** Excluded chapters are kept in the list but not generated. */
+  included: boolean;
+}
+
+// Stand-alone lines that open a chapter in plain text, in English and Hindi
+const CHAPTER_HEADING = /^(?:(?:chapter|part|book|section|अध्याय|भाग|खंड|खण्ड|प्रकरण)\s+[\p{L}\p{N}]+(?:\s*[:.\-–—]\s*.{0,80})?|prologue|epilogue|introduction|preface|afterword|प्रस्तावना|भूमिका|उपसंहार)$/iu;
+// Longest line still considered a heading
+const MAX_HEADING_LENGTH = 100;
+
+/** Whether a stand-alone line reads as a chapter heading ("Chapter 3", "अध्याय 2", "Epilogue"). */
+export function isChapterHeading(line: string): boolean {
+  return line.length <= MAX_HEADING_LENGTH && CHAPTER_HEADING.test(line);
+}
+
+/**
+ * Splits plain text into blocks. A line that looks like a chapter heading
+ * ("Chapter 3", "CHAPTER IV: The Storm", "अध्याय 2") and stands alone becomes a
+ * heading; everything else becomes paragraphs split at blank lines.
+ */
+export function blocksFromPlainText(text: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const joined = paragraph.join('\n').trim();
+    if (joined) blocks.push({ kind: 'paragraph', text: joined });
+    paragraph = [];
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+    } else if (paragraph.length === 0 && isChapterHeading(line)) {
+      blocks.push({ kind: 'heading', level: 1, text: line });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Groups blocks into chapters. Chapters start at the highest heading level that
+ * occurs more than once (so a single book title above chapter headings does not
+ * swallow the book); lower headings stay in the text as paragraphs. Text before
+ * the first chapter heading becomes an opening chapter of its own.
+ *
+ * @param fallbackTitle Title of a document without chapter headings.
+ */
+export function chaptersFromBlocks(blocks: DocumentBlock[], fallbackTitle: string): Chapter[] {
+  const counts = new Map<number, number>();
+  blocks.forEach(block => {
+    if (block.kind === 'heading') counts.set(block.level, (counts.get(block.level) ?? 0) + 1);
+  });
+  const levels = Array.from(counts.keys()).sort((a, b) => a - b);
+  const splitLevel = levels.find(level => counts.get(level)! > 1) ?? levels[0];
+
+  const chapters: Chapter[] = [];
+  let title: string | null = null;
+  // Title of a heading with nothing under it (e.g. a part title), carried into the next chapter
+  let carried: string | null = null;
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    const text = paragraphs.join('\n\n').trim();
+    paragraphs = [];
+    if (!text) {
+      if (title) carried = carried ? `${carried} — ${title}` : title;
+      return;
+    }
+    const heading = title ?? fallbackTitle;
+    chapters.push(createChapter(carried ? `${carried} — ${heading}` : heading, text));
+    carried = null;
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'heading' && block.level === splitLevel) {
+      flush();
+      title = block.text;
+    } else if (block.kind === 'heading' && block.level < splitLevel) {
+      // A document title above the chapters is not read, but names the opening text
+      fallbackTitle = block.text;
+    } else {
+      paragraphs.push(block.text);
+    }
+  }
+  flush();
+
+  return chapters;
+}
+
+export function createChapter(title: string, text: string): Chapter {
+  return { id: crypto.randomUUID(), title, text, included: true };
+}
+
+/**
+ * Joins the included chapters into a single story, each starting with its title
+ * as a paragraph of its own.
+ * @returns The story text and the offset in it where each included chapter starts.
+ */
+export function composeChapters(chapters: Chapter[]): { text: string; starts: number[] } {
+  let text = '';
+  const starts: number[] = [];
+
+  for (const chapter of chapters) {
+    if (!chapter.included) continue;
+    if (text) text += '\n\n';
+    starts.push(text.length);
+    text += `${chapter.title}\n\n${chapter.text}`;
+  }
+
+  return { text, starts };
+}
+
+/** Collapses runs of whitespace the way rendered HTML does. */
+export const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
@@ -0,0 +1,68 @@
+import { openZip } from '../zip';
+import { DocumentBlock, normalizeWhitespace } from './chapters';
+
+const DOCUMENT_PATH = 'word/document.xml';
+const CORE_PROPERTIES_PATH = 'docProps/core.xml';
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Reads the body of a Word document as headings and paragraphs. Headings are
+ * recognized by the built-in "Title" and "Heading N" paragraph styles (matched by
+ * style id, which Word keeps in English whatever the UI language).
+ */
+export async function importDocx(data: Uint8Array): Promise<{ title?: string; blocks: DocumentBlock[] }> {
+  const zip = openZip(data);
+  if (!zip.has(DOCUMENT_PATH)) {
+    throw new Error('The file is not a Word document (word/document.xml is missing).');
+  }
+
+  const doc = new DOMParser().parseFromString(await zip.readText(DOCUMENT_PATH), 'application/xml');
+  const blocks: DocumentBlock[] = [];
+
+  for (const paragraph of Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'))) {
+    const text = normalizeWhitespace(paragraphText(paragraph));
+    if (!text) continue;
+
+    const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') ?? '';
+    const heading = /^heading\s*([1-9])$/i.exec(style);
+    if (/^title$/i.test(style)) blocks.push({ kind: 'heading', level: 0, text });
+    else if (heading) blocks.push({ kind: 'heading', level: Number(heading[1]), text });
+    else blocks.push({ kind: 'paragraph', text });
+  }
+
+  let title: string | undefined;
+  if (zip.has(CORE_PROPERTIES_PATH)) {
+    const core = new DOMParser().parseFromString(await zip.readText(CORE_PROPERTIES_PATH), 'application/xml');
+    title = normalizeWhitespace(core.getElementsByTagName('dc:title')[0]?.textContent ?? '') || undefined;
+  }
+
+  return { title, blocks };
+}
+
+function paragraphText(paragraph: Element): string {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI !== WORD_NS) continue;
+      switch (child.localName) {
+        case 't':
+          text += child.textContent ?? '';
+          break;
+        case 'tab':
+        case 'br':
+          text += ' ';
+          break;
+        // Deleted revisions, footnote references and field codes are not part of the read text
+        case 'del':
+        case 'instrText':
+        case 'footnoteReference':
+        case 'endnoteReference':
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+  walk(paragraph);
+  return text;
+}
@@ -0,0 +1,145 @@
+import { openZip, ZipReader } from '../zip';
+import { Chapter, chaptersFromBlocks, createChapter, DocumentBlock, normalizeWhitespace } from './chapters';
+
+const CONTAINER_PATH = 'META-INF/container.xml';
+// Block-level elements whose text becomes a paragraph (or heading)
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, div, dt, dd, td';
+
+/**
+ * Reads an EPUB (2 or 3): the spine gives the reading order, and each spine
+ * document becomes a chapter titled from the table of contents, or else from its
+ * heading. Documents without text (covers, title pages) are skipped, and a
+ * spine document with several top-level headings is split at them.
+ */
+export async function importEpub(data: Uint8Array, fallbackTitle: string): Promise<{ title: string; chapters: Chapter[] }> {
+  const zip = openZip(data);
+  if (!zip.has(CONTAINER_PATH)) {
+    throw new Error('The file is not an EPUB (container.xml is missing).');
+  }
+
+  const container = parseXml(await zip.readText(CONTAINER_PATH));
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) {
+    throw new Error('The EPUB does not name its package document.');
+  }
+
+  const opf = parseXml(await zip.readText(opfPath));
+  const baseDir = dirname(opfPath);
+  const title = normalizeWhitespace(opf.getElementsByTagName('dc:title')[0]?.textContent ?? '') || fallbackTitle;
+
+  const manifest = new Map<string, { href: string; properties: string; mediaType: string }>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    manifest.set(item.getAttribute('id') ?? '', {
+      href: resolvePath(baseDir, item.getAttribute('href') ?? ''),
+      properties: item.getAttribute('properties') ?? '',
+      mediaType: item.getAttribute('media-type') ?? '',
+    });
+  }
+
+  const tocTitles = await readTocTitles(zip, opf, manifest);
+
+  const chapters: Chapter[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(itemref.getAttribute('idref') ?? '');
+    if (!item || !zip.has(item.href)) continue;
+
+    const doc = parseHtml(await zip.readText(item.href));
+    const blocks = blocksFromHtml(doc);
+    if (!blocks.some(block => block.kind === 'paragraph')) continue;
+
+    const sections = chaptersFromBlocks(blocks, `Chapter ${chapters.length + 1}`);
+    const tocTitle = tocTitles.get(item.href);
+    // One document, one chapter, unless it clearly holds several
+    chapters.push(...(sections.length > 1 ? sections : [createChapter(tocTitle ?? sections[0].title, sections[0].text)]));
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('No readable text was found in the EPUB.');
+  }
+  return { title, chapters };
+}
+
+/**
+ * Maps document paths to their titles in the table of contents: the EPUB 3
+ * navigation document, or the EPUB 2 NCX.
+ */
+async function readTocTitles(
+  zip: ZipReader,
+  opf: Document,
+  manifest: Map<string, { href: string; properties: string; mediaType: string }>,
+): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const items = Array.from(manifest.values());
+  const add = (tocPath: string, href: string, label: string) => {
+    const path = resolvePath(dirname(tocPath), href.split('#')[0]);
+    const text = normalizeWhitespace(label);
+    // The first entry pointing into a document names it
+    if (path && text && !titles.has(path)) titles.set(path, text);
+  };
+
+  const nav = items.find(item => item.properties.split(/\s+/).includes('nav'));
+  if (nav && zip.has(nav.href)) {
+    const doc = parseHtml(await zip.readText(nav.href));
+    const tocNav = Array.from(doc.querySelectorAll('nav')).find(el => el.getAttribute('epub:type') === 'toc') ?? doc.querySelector('nav');
+    tocNav?.querySelectorAll('a[href]').forEach(a => add(nav.href, a.getAttribute('href')!, a.textContent ?? ''));
+    if (titles.size > 0) return titles;
+  }
+
+  const ncxId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+  const ncx = (ncxId && manifest.get(ncxId)) || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncx && zip.has(ncx.href)) {
+    const doc = parseXml(await zip.readText(ncx.href));
+    for (const point of Array.from(doc.getElementsByTagName('navPoint'))) {
+      const label = point.getElementsByTagName('text')[0]?.textContent ?? '';
+      const src = point.getElementsByTagName('content')[0]?.getAttribute('src') ?? '';
+      add(ncx.href, src, label);
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Extracts headings and paragraphs from an (X)HTML document. Only the innermost
+ * block elements are used, so text is never taken twice.
+ */
+export function blocksFromHtml(doc: Document): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const body = doc.body ?? doc.documentElement;
+  body.querySelectorAll('script, style, nav').forEach(el => el.remove());
+
+  for (const el of Array.from(body.querySelectorAll(BLOCK_SELECTOR))) {
+    if (el.querySelector(BLOCK_SELECTOR)) continue;
+    const text = normalizeWhitespace(el.textContent ?? '');
+    if (!text) continue;
+    const heading = /^h([1-6])$/i.exec(el.tagName);
+    blocks.push(heading ? { kind: 'heading', level: Number(heading[1]), text } : { kind: 'paragraph', text });
+  }
+
+  return blocks;
+}
+
+function parseXml(source: string): Document {
+  return new DOMParser().parseFromString(source, 'application/xml');
+}
+
+function parseHtml(source: string): Document {
+  // XHTML parsed as HTML is forgiving of the small errors common in EPUBs
+  return new DOMParser().parseFromString(source, 'text/html');
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash >= 0 ? path.slice(0, slash + 1) : '';
+}
+
+/** Resolves an href relative to a directory inside the archive. */
+function resolvePath(baseDir: string, href: string): string {
+  const parts: string[] = [];
+  for (const part of (baseDir + decodeURIComponent(href)).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
@@ -0,0 +1,84 @@
+import { DocumentBlock } from './chapters';
+
+const ATX_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+const FENCE = /^(```|~~~)/;
+const HORIZONTAL_RULE = /^([-*_])(\s*\1){2,}\s*$/;
+
+/**
+ * Reduces Markdown to headings and plain paragraphs. Inline formatting, links,
+ * images, HTML tags and code blocks are stripped; list items and block quotes
+ * become paragraphs of their own.
+ */
+export function blocksFromMarkdown(markdown: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const lines = markdown.split('\n');
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = stripInline(paragraph.join(' '));
+    if (text) blocks.push({ kind: 'paragraph', text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (FENCE.test(line)) {
+      // Code is not read aloud
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      flush();
+      blocks.push({ kind: 'heading', level: atx[1].length, text: stripInline(atx[2]) });
+      continue;
+    }
+
+    const underline = lines[i + 1]?.trim() ?? '';
+    if (line && paragraph.length === 0 && SETEXT_UNDERLINE.test(underline) && !HORIZONTAL_RULE.test(line)) {
+      blocks.push({ kind: 'heading', level: underline.startsWith('=') ? 1 : 2, text: stripInline(line) });
+      i++;
+      continue;
+    }
+
+    if (!line || HORIZONTAL_RULE.test(line)) {
+      flush();
+      continue;
+    }
+
+    // Each list item or quoted line starts a paragraph of its own
+    const item = /^(?:[-*+]|\d+[.)]|>+)\s+(.*)$/.exec(line);
+    if (item) {
+      flush();
+      paragraph.push(item[1]);
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // links
+    .replace(/\[([^\]]*)\]\[[^\]]*\]/g, '$1') // reference links
+    .replace(/<[^>]+>/g, '') // HTML tags
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
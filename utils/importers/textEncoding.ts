@@ -0,0 +1,124 @@
+/**
+ * Decoding of plain-text files whose encoding is not declared. Besides Unicode
+ * (with or without a byte order mark), legacy Hindi files are often ISCII, which
+ * browsers cannot decode, so it is mapped to Unicode Devanagari here.
+ */
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'iscii-devanagari' | 'windows-1252';
+
+export const TEXT_ENCODINGS: { value: TextEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'iscii-devanagari', label: 'ISCII (Devanagari)' },
+  { value: 'windows-1252', label: 'Windows-1252 (Latin)' },
+];
+
+// ISCII-91 0xA1..0xFA to Devanagari; '' for codes without a character of their own
+const ISCII_TABLE: string[] = [
+  'ँ', 'ं', 'ः', 'अ', 'आ', 'इ', 'ई', 'उ', // A1-A8
+  'ऊ', 'ऋ', 'ऎ', 'ए', 'ऐ', 'ऍ', 'ऒ', 'ओ', // A9-B0
+  'औ', 'ऑ', 'क', 'ख', 'ग', 'घ', 'ङ', 'च', // B1-B8
+  'छ', 'ज', 'झ', 'ञ', 'ट', 'ठ', 'ड', 'ढ', // B9-C0
+  'ण', 'त', 'थ', 'द', 'ध', 'न', 'ऩ', 'प', // C1-C8
+  'फ', 'ब', 'भ', 'म', 'य', 'य़', 'र', 'ऱ', // C9-D0
+  'ल', 'ळ', 'ऴ', 'व', 'श', 'ष', 'स', 'ह', // D1-D8
+  '', 'ा', 'ि', 'ी', 'ु', 'ू', 'ृ', 'ॆ', // D9 (INV)-E0
+  'े', 'ै', 'ॅ', 'ॊ', 'ो', 'ौ', 'ॉ', '्', // E1-E8
+  '़', '।', '', '', '', '', '', '', // E9-F0 (EF ATR, F0 EXT)
+  '०', '१', '२', '३', '४', '५', '६', '७', // F1-F8
+  '८', '९', // F9-FA
+];
+const ISCII_FIRST = 0xa1;
+const ISCII_VIRAMA = 0xe8;
+const ISCII_NUKTA = 0xe9;
+const ISCII_ATR = 0xef;
+const ZWNJ = '\u200c';
+const ZWJ = '\u200d';
+
+// Share of bytes >= 0x80 above which undeclared 8-bit text is taken to be ISCII
+const ISCII_HIGH_BYTE_SHARE = 0.3;
+
+/**
+ * Guesses the encoding of a text file: a byte order mark, then valid UTF-8, then
+ * the zero-byte pattern of UTF-16, and finally ISCII for text that is mostly high
+ * bytes (Devanagari) or Windows-1252 otherwise.
+ */
+export function detectTextEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    if (!hasUtf16ZeroPattern(bytes)) return 'utf-8';
+  } catch {
+    // Not UTF-8
+  }
+
+  // ASCII text in UTF-16 has a zero in every other byte
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  let high = 0;
+  sample.forEach((byte, i) => {
+    if (byte === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+    if (byte >= 0x80) high++;
+  });
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+
+  const text = sample.filter(byte => byte > 0x20).length;
+  return text > 0 && high / text > ISCII_HIGH_BYTE_SHARE ? 'iscii-devanagari' : 'windows-1252';
+}
+
+function hasUtf16ZeroPattern(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 4096);
+  return sample.length > 1 && sample.filter(byte => byte === 0).length > sample.length * 0.2;
+}
+
+/**
+ * Decodes a text file, detecting the encoding unless one is given.
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding = detectTextEncoding(bytes)): { text: string; encoding: TextEncoding } {
+  const text = encoding === 'iscii-devanagari' ? decodeIscii(bytes) : new TextDecoder(encoding).decode(bytes);
+  return { text: text.replace(/\r\n?/g, '\n'), encoding };
+}
+
+/**
+ * Converts ISCII-91 (Devanagari) to Unicode. ASCII passes through; the nukta forms
+ * of OM and avagraha, and the double virama / virama-nukta conjunct controls are
+ * handled. Script-switching ATR sequences are skipped.
+ */
+export function decodeIscii(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    const next = bytes[i + 1];
+
+    if (byte < 0x80) {
+      text += String.fromCharCode(byte);
+      continue;
+    }
+    if (byte === ISCII_ATR) {
+      i++; // The attribute byte that follows selects a script or font
+      continue;
+    }
+    if (next === ISCII_NUKTA) {
+      if (byte === 0xa1) { text += 'ॐ'; i++; continue; } // OM
+      if (byte === 0xea) { text += 'ऽ'; i++; continue; } // avagraha
+      if (byte === ISCII_VIRAMA) { text += '्' + ZWJ; i++; continue; } // soft halant
+    }
+    if (byte === ISCII_VIRAMA && next === ISCII_VIRAMA) {
+      text += '्' + ZWNJ; // explicit halant
+      i++;
+      continue;
+    }
+    text += byte >= ISCII_FIRST ? ISCII_TABLE[byte - ISCII_FIRST] ?? '' : '';
+  }
+  return text;
+}
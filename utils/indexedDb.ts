@@ -0,0 +1,127 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database.
+ * All object stores are declared here so schema upgrades happen in one place.
+ */
+
+const DB_NAME = 'gemini-storyteller';
+const DB_VERSION = 4;
+
+export const STORES = {
+  audioCache: 'audioCache',
+  history: 'history',
+  historyAudio: 'historyAudio',
+  batchItems: 'batchItems',
+  batchOutputs: 'batchOutputs',
+  projects: 'projects',
+  projectAudio: 'projectAudio',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains(STORES.audioCache)) {
+    const store = db.createObjectStore(STORES.audioCache, { keyPath: 'key' });
+    store.createIndex('lastAccess', 'lastAccess');
+  }
+  if (!db.objectStoreNames.contains(STORES.history)) {
+    const store = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  }
+  // PCM is kept apart from the metadata so listing the history stays cheap
+  if (!db.objectStoreNames.contains(STORES.historyAudio)) {
+    db.createObjectStore(STORES.historyAudio, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.batchItems)) {
+    const store = db.createObjectStore(STORES.batchItems, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  }
+  // Encoded results, kept apart from the queue like history audio
+  if (!db.objectStoreNames.contains(STORES.batchOutputs)) {
+    db.createObjectStore(STORES.batchOutputs, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.projects)) {
+    const store = db.createObjectStore(STORES.projects, { keyPath: 'id' });
+    store.createIndex('updatedAt', 'updatedAt');
+  }
+  if (!db.objectStoreNames.contains(STORES.projectAudio)) {
+    db.createObjectStore(STORES.projectAudio, { keyPath: 'id' });
+  }
+}
+
+/**
+ * Opens (and if needed upgrades) the database. The connection is shared.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Resolves with the result of an IDBRequest.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction has committed, rejects if it fails or is aborted.
+ */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Runs `fn` inside a transaction on a single store and resolves with its result
+ * once the transaction has committed.
+ */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = transactionDone(tx);
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+}
+
+/**
+ * Iterates a cursor, calling `visit` for each record until it returns false.
+ */
+export function iterateCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => boolean | void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || visit(cursor) === false) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
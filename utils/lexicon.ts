@@ -0,0 +1,97 @@
+import { SpeechRequest, VoiceName } from '../types';
+
+/**
+ * Pronunciation lexicon: words the model tends to get wrong, mapped to a respelling
+ * or phonetic hint that is substituted into the text before synthesis. The story
+ * text, timing and read-along are left as written.
+ */
+
+export interface LexiconEntry {
+  id: string;
+  /** The word or phrase as written in stories. */
+  word: string;
+  /** What is sent to the model instead, e.g. "Ree-tah" or "Nee-raj (rhymes with garage)". */
+  replacement: string;
+  /** Only applies when this voice reads the word. */
+  voice?: VoiceName;
+  /** Only applies to this story (see `getStoryKey`). */
+  project?: string;
+}
+
+/** Where a lexicon is being applied, for scoped entries. */
+export interface LexiconScope {
+  voice?: VoiceName;
+  project?: string;
+}
+
+// Letters, combining marks (Devanagari matras, virama) and digits are all part of a word
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns the entries that apply in `scope`. When a word has several entries, the
+ * most specific one wins (voice and project, then either, then global).
+ */
+export function resolveLexicon(entries: LexiconEntry[], scope: LexiconScope): LexiconEntry[] {
+  const best = new Map<string, { entry: LexiconEntry; rank: number }>();
+
+  for (const entry of entries) {
+    const word = entry.word.trim();
+    if (!word || !entry.replacement.trim()) continue;
+    if (entry.voice && entry.voice !== scope.voice) continue;
+    if (entry.project && entry.project !== scope.project) continue;
+
+    const rank = (entry.voice ? 1 : 0) + (entry.project ? 1 : 0);
+    const key = word.toLocaleLowerCase();
+    const current = best.get(key);
+    if (!current || rank > current.rank) best.set(key, { entry, rank });
+  }
+
+  return Array.from(best.values(), ({ entry }) => entry);
+}
+
+/**
+ * Replaces whole-word occurrences of the lexicon's words in `text`. Matching is
+ * case-insensitive and works for Devanagari as well as Latin script: a match may
+ * not be preceded or followed by a letter, mark or digit, so "राम" does not match
+ * inside "रामायण" and "Ann" does not match inside "Anna". Longer entries take
+ * precedence over shorter ones they contain.
+ */
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  if (entries.length === 0) return text;
+
+  const byWord = new Map(entries.map(entry => [entry.word.trim().toLocaleLowerCase(), entry.replacement.trim()]));
+  const alternatives = Array.from(byWord.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`(?<!${WORD_CHAR})(?:${alternatives.join('|')})(?!${WORD_CHAR})`, 'giu');
+
+  return text.replace(pattern, match => byWord.get(match.toLocaleLowerCase()) ?? match);
+}
+
+/**
+ * Applies the lexicon to a speech request. In multi-speaker scripts every line is
+ * transformed with the entries for the voice that reads it.
+ */
+export function applyLexiconToRequest(request: SpeechRequest, entries: LexiconEntry[], project?: string): SpeechRequest {
+  if (entries.length === 0) return request;
+
+  if (!request.speakers) {
+    return { ...request, text: applyLexicon(request.text, resolveLexicon(entries, { voice: request.voice, project })) };
+  }
+
+  const voices = new Map(request.speakers.map(({ speaker, voice }) => [speaker, voice]));
+  const text = request.text
+    .split('\n')
+    .map(line => {
+      const colon = line.indexOf(':');
+      const speaker = colon > 0 ? line.slice(0, colon) : '';
+      const spoken = line.slice(colon + 1);
+      const scope = { voice: voices.get(speaker) ?? request.voice, project };
+      return line.slice(0, colon + 1) + applyLexicon(spoken, resolveLexicon(entries, scope));
+    })
+    .join('\n');
+
+  return { ...request, text };
+}
@@ -0,0 +1,352 @@
+import { VoiceName } from '../types';
+import { VOICE_NAMES } from './voiceCatalog';
+
+/**
+ * Inline markup for story text, a small SSML-like subset written in brackets:
+ *
+ * - `[pause 1.5s]`, `[pause 500ms]`, `[pause]` — silence of that length (default 1s),
+ *   inserted into the stitched audio rather than left to the model.
+ * - `[em]...[/em]` — emphasis.
+ * - `[spell]...[/spell]` — read letter by letter, e.g. an acronym.
+ * - `[sub:spoken]...[/sub]` — say `spoken` in place of the written text.
+ * - `[voice:Puck]` — read what follows with another voice, until the next voice tag
+ *   or `[/voice]` (narration only; dialogue voices come from the casting).
+ *
+ * Tags are located with offsets into the story text, so chunks, timing and
+ * read-along keep referring to the text as written.
+ */
+
+export type MarkupTag =
+  | { kind: 'pause'; start: number; end: number; seconds: number }
+  /** `voice` is null for `[/voice]` and `[voice:default]`. */
+  | { kind: 'voice'; start: number; end: number; voice: VoiceName | null }
+  | { kind: 'em' | 'spell'; start: number; end: number; closing: boolean }
+  | { kind: 'sub'; start: number; end: number; closing: boolean; alias: string };
+
+export interface MarkupError {
+  /** Character offsets of the offending markup. */
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedMarkup {
+  tags: MarkupTag[];
+  errors: MarkupError[];
+}
+
+export interface MarkupParseOptions {
+  /** Voices `[voice:...]` may name. */
+  voices?: VoiceName[];
+  /** Whether voice switches are allowed (not in dialogue mode). */
+  allowVoiceSwitch?: boolean;
+}
+
+/** Where a piece of the story sits relative to the markup around it. */
+export interface MarkupPlacement {
+  /** Silence before the piece, in seconds. */
+  pauseBefore?: number;
+  /** Voice switched to by a voice tag. */
+  voice?: VoiceName;
+}
+
+const DEFAULT_PAUSE_SECONDS = 1;
+export const MAX_PAUSE_SECONDS = 10;
+
+// A known tag name in brackets; the closing bracket is optional so a missing one can be reported
+const TAG = /\[(\/?)(pause|voice|em|spell|sub)(?=[\]\s:]|$)([^\]\n]*)(\]?)/gi;
+const PAUSE_LENGTH = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i;
+
+/**
+ * Parses and validates the markup in a story. Text in brackets that does not start
+ * with a tag name (e.g. `[citation needed]`) is left alone as ordinary text.
+ */
+export function parseMarkup(text: string, options: MarkupParseOptions = {}): ParsedMarkup {
+  const { voices = VOICE_NAMES, allowVoiceSwitch = true } = options;
+  const tags: MarkupTag[] = [];
+  const errors: MarkupError[] = [];
+  let match: RegExpExecArray | null;
+
+  TAG.lastIndex = 0;
+  while ((match = TAG.exec(text)) !== null) {
+    const [raw, slash, rawName, rawArgs, bracket] = match;
+    const name = rawName.toLowerCase();
+    const closing = slash === '/';
+    const args = rawArgs.trim();
+    const start = match.index;
+    const end = start + raw.length;
+    const fail = (message: string) => errors.push({ start, end, message });
+
+    if (!bracket) {
+      fail(`The [${slash}${name}] tag is missing its closing "]".`);
+      continue;
+    }
+    if (closing && args) {
+      fail(`Closing tag [/${name}] takes no arguments.`);
+      continue;
+    }
+
+    switch (name) {
+      case 'pause': {
+        if (closing) {
+          fail('[pause] has no closing tag; write [pause 1s].');
+          break;
+        }
+        const length = PAUSE_LENGTH.exec(args);
+        if (args && !length) {
+          fail(`Pause length "${args}" should look like 1.5s or 500ms.`);
+          break;
+        }
+        const seconds = length ? Number(length[1]) / (length[2]?.toLowerCase() === 'ms' ? 1000 : 1) : DEFAULT_PAUSE_SECONDS;
+        if (seconds <= 0 || seconds > MAX_PAUSE_SECONDS) {
+          fail(`Pauses must be longer than 0 and at most ${MAX_PAUSE_SECONDS}s.`);
+          break;
+        }
+        tags.push({ kind: 'pause', start, end, seconds });
+        break;
+      }
+
+      case 'voice': {
+        if (!allowVoiceSwitch) {
+          fail('Voice switches are not available in dialogue mode; cast the speakers instead.');
+          break;
+        }
+        if (closing) {
+          tags.push({ kind: 'voice', start, end, voice: null });
+          break;
+        }
+        const requested = args.startsWith(':') ? args.slice(1).trim() : '';
+        if (!requested) {
+          fail('Name a voice, e.g. [voice:Puck].');
+          break;
+        }
+        if (requested.toLowerCase() === 'default') {
+          tags.push({ kind: 'voice', start, end, voice: null });
+          break;
+        }
+        const voice = voices.find(v => v.toLowerCase() === requested.toLowerCase());
+        if (!voice) {
+          fail(`Unknown voice "${requested}". Available: ${voices.join(', ')}.`);
+          break;
+        }
+        tags.push({ kind: 'voice', start, end, voice });
+        break;
+      }
+
+      case 'sub': {
+        const alias = args.startsWith(':') ? args.slice(1).trim() : '';
+        if (!closing && !alias) {
+          fail('Give the spoken form, e.g. [sub:Doctor]Dr.[/sub].');
+          break;
+        }
+        tags.push({ kind: 'sub', start, end, closing, alias });
+        break;
+      }
+
+      default: {
+        if (args) {
+          fail(`[${name}] takes no arguments.`);
+          break;
+        }
+        tags.push({ kind: name as 'em' | 'spell', start, end, closing });
+      }
+    }
+  }
+
+  validateSpans(text, tags, errors);
+  errors.sort((a, b) => a.start - b.start);
+  return { tags, errors };
+}
+
+/**
+ * Checks that `em`, `spell` and `sub` open and close in pairs, are not nested in
+ * themselves and hold neither pauses, voice switches nor paragraph breaks.
+ */
+function validateSpans(text: string, tags: MarkupTag[], errors: MarkupError[]): void {
+  const open = new Map<string, MarkupTag>();
+
+  for (const tag of tags) {
+    if (tag.kind === 'pause' || tag.kind === 'voice') {
+      for (const opener of open.values()) {
+        if (opener.kind === 'em') continue;
+        errors.push({ start: tag.start, end: tag.end, message: `[${tag.kind}] cannot appear inside [${opener.kind}].` });
+      }
+      continue;
+    }
+
+    const opener = open.get(tag.kind);
+    if (!tag.closing) {
+      if (opener) {
+        errors.push({ start: tag.start, end: tag.end, message: `[${tag.kind}] is already open; close it with [/${tag.kind}] first.` });
+      } else {
+        open.set(tag.kind, tag);
+      }
+      continue;
+    }
+
+    if (!opener) {
+      errors.push({ start: tag.start, end: tag.end, message: `[/${tag.kind}] has no matching [${tag.kind}].` });
+      continue;
+    }
+    if (/\n[ \t]*\n/.test(text.slice(opener.end, tag.start))) {
+      errors.push({ start: opener.start, end: opener.end, message: `[${tag.kind}] cannot span paragraphs.` });
+    }
+    open.delete(tag.kind);
+  }
+
+  for (const opener of open.values()) {
+    errors.push({ start: opener.start, end: opener.end, message: `[${opener.kind}] is never closed.` });
+  }
+}
+
+/**
+ * Replaces every tag with spaces, keeping all offsets, so the text can be split
+ * into paragraphs, sentences and words as if the markup were not there.
+ */
+export function maskMarkup(text: string, tags: MarkupTag[]): string {
+  let masked = '';
+  let cursor = 0;
+  for (const tag of tags) {
+    masked += text.slice(cursor, tag.start) + ' '.repeat(tag.end - tag.start);
+    cursor = tag.end;
+  }
+  return masked + text.slice(cursor);
+}
+
+/**
+ * Renders the text the model should speak for `[start, end)` of the story:
+ * emphasis becomes `*...*`, spelled text is split into letters, substitutions are
+ * replaced by their spoken form and all other tags are dropped.
+ */
+export function renderSpoken(text: string, start: number, end: number, tags: MarkupTag[]): string {
+  let emphasis = false;
+  let spell = false;
+  let sub = false;
+  let spoken = '';
+  let cursor = start;
+  let started = false;
+  let touched = false;
+
+  const append = (from: number, to: number) => {
+    if (to <= from || sub) return;
+    const piece = text.slice(from, to);
+    spoken += spell ? spellOut(piece) : piece;
+  };
+
+  // Emphasis carried in from before the range is reopened at its start
+  const begin = () => {
+    if (!started && emphasis) spoken += '*';
+    started = true;
+  };
+
+  for (const tag of tags) {
+    if (tag.end <= start) {
+      if (tag.kind === 'em') emphasis = !tag.closing;
+      else if (tag.kind === 'spell') spell = !tag.closing;
+      else if (tag.kind === 'sub') sub = !tag.closing;
+      continue;
+    }
+    if (tag.start >= end) break;
+
+    begin();
+    append(cursor, tag.start);
+    cursor = tag.end;
+    touched = true;
+
+    if (tag.kind === 'em') {
+      emphasis = !tag.closing;
+      spoken += '*';
+    } else if (tag.kind === 'spell') {
+      spell = !tag.closing;
+    } else if (tag.kind === 'sub') {
+      sub = !tag.closing;
+      if (sub) spoken += tag.alias;
+    }
+  }
+
+  begin();
+  append(cursor, end);
+  if (emphasis) spoken += '*';
+
+  // Dropped tags leave doubled spaces behind
+  return (touched ? spoken.replace(/[ \t]{2,}/g, ' ') : spoken).trim();
+}
+
+function spellOut(text: string): string {
+  return text.replace(/[\p{L}\p{N}]+/gu, word => Array.from(word).join('-'));
+}
+
+/**
+ * Cuts story pieces (chunks or dialogue lines) at pause and voice tags and renders
+ * their spoken text. Each resulting piece records the pauses written before it
+ * and the voice switched to for it; pieces left without speech are dropped.
+ *
+ * A pause before the first piece is ignored, as the story always starts at 0.
+ */
+export function applyMarkup<T extends { text: string; start: number; end: number }>(
+  text: string,
+  pieces: T[],
+  tags: MarkupTag[],
+): (T & MarkupPlacement)[] {
+  if (tags.length === 0) return pieces;
+
+  const breaks = tags.filter(tag => tag.kind === 'pause' || tag.kind === 'voice');
+  const result: (T & MarkupPlacement)[] = [];
+  let voice: VoiceName | null = null;
+  let pause = 0;
+  let next = 0;
+
+  // Applies the breaks before `position`
+  const advance = (position: number) => {
+    while (next < breaks.length && breaks[next].start < position) {
+      const tag = breaks[next++];
+      if (tag.kind === 'pause') pause += tag.seconds;
+      else if (tag.kind === 'voice') voice = tag.voice;
+    }
+  };
+
+  for (const piece of pieces) {
+    advance(piece.start);
+    let from = piece.start;
+
+    while (from < piece.end) {
+      const cut = next < breaks.length && breaks[next].start < piece.end ? breaks[next] : null;
+      const to = cut ? cut.start : piece.end;
+      const spoken = renderSpoken(text, from, to, tags);
+
+      if (spoken) {
+        const [start, end] = trimRange(text, from, to);
+        result.push({
+          ...piece,
+          text: spoken,
+          start,
+          end,
+          ...(pause > 0 && { pauseBefore: pause }),
+          ...(voice && { voice }),
+        });
+        pause = 0;
+      }
+
+      if (!cut) break;
+      advance(cut.end);
+      from = cut.end;
+    }
+  }
+
+  return result;
+}
+
+function trimRange(text: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+}
+
+/**
+ * Converts a character offset into a 1-based line and column, for error messages.
+ */
+export function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
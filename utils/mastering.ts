@@ -0,0 +1,338 @@
+/**
+ * Mastering stage for synthesized speech: silence trimming, loudness
+ * normalization (ITU-R BS.1770 / EBU R128) and a true-peak limiter.
+ *
+ * Silence processing runs per chunk before stitching, so chunk timing stays
+ * exact; normalization and limiting run on the stitched story and do not move
+ * anything in time.
+ */
+
+export interface MasteringOptions {
+  /** Target integrated loudness in LUFS, or null to leave levels untouched. */
+  targetLufs: number | null;
+  /** True-peak ceiling in dBTP. */
+  truePeakDb: number;
+  /** Trims silence at the start and end of every chunk. */
+  trimSilence: boolean;
+  /** Longest pause kept inside a chunk, in seconds (0 keeps pauses as they are). */
+  maxSilenceSeconds: number;
+  /** Pause between paragraphs, in seconds. */
+  paragraphPauseSeconds: number;
+}
+
+export const DEFAULT_MASTERING_OPTIONS: MasteringOptions = {
+  targetLufs: -16,
+  truePeakDb: -1,
+  trimSilence: true,
+  maxSilenceSeconds: 1,
+  paragraphPauseSeconds: 0.8,
+};
+
+export const LOUDNESS_TARGETS = [
+  { label: 'Podcast (-16 LUFS)', value: -16 },
+  { label: 'Audiobook (-19 LUFS)', value: -19 },
+  { label: 'Broadcast (-23 LUFS)', value: -23 },
+];
+
+export interface LoudnessStats {
+  /** Integrated loudness in LUFS (-Infinity for silence). */
+  integrated: number;
+  /** Estimated true peak in dBTP. */
+  truePeak: number;
+}
+
+export interface LoudnessReport {
+  before: LoudnessStats;
+  after: LoudnessStats;
+}
+
+// Level below which audio counts as silence
+const SILENCE_THRESHOLD_DB = -50;
+// Analysis window for silence detection
+const SILENCE_WINDOW_SECONDS = 0.01;
+// Silence kept around speech when trimming so consonants are not clipped
+const SILENCE_PADDING_SECONDS = 0.05;
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.05;
+
+const dbToGain = (db: number): number => 10 ** (db / 20);
+const gainToDb = (gain: number): number => 20 * Math.log10(gain);
+
+// --- Silence ---
+
+/**
+ * Trims leading/trailing silence and shortens long pauses inside a chunk.
+ * Returns `buffer` itself when nothing needs to change.
+ */
+export function tidySilence(buffer: AudioBuffer, ctx: BaseAudioContext, options: MasteringOptions): AudioBuffer {
+  const windowFrames = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * buffer.sampleRate));
+  const padding = Math.round(SILENCE_PADDING_SECONDS * buffer.sampleRate);
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+  const windows = Math.ceil(buffer.length / windowFrames);
+
+  // Peak level per analysis window, across channels
+  const silent: boolean[] = [];
+  for (let w = 0; w < windows; w++) {
+    let peak = 0;
+    const end = Math.min(buffer.length, (w + 1) * windowFrames);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = w * windowFrames; i < end; i++) peak = Math.max(peak, Math.abs(data[i]));
+    }
+    silent.push(peak < threshold);
+  }
+
+  const firstSound = silent.indexOf(false);
+  if (firstSound < 0) return buffer;
+  const lastSound = silent.lastIndexOf(false);
+
+  // Frame ranges [start, end) to keep
+  const keep: [number, number][] = [];
+  let start = options.trimSilence ? Math.max(0, firstSound * windowFrames - padding) : 0;
+  const end = options.trimSilence ? Math.min(buffer.length, (lastSound + 1) * windowFrames + padding) : buffer.length;
+
+  const maxPause = Math.round(options.maxSilenceSeconds * buffer.sampleRate);
+  if (maxPause > 0) {
+    for (let w = firstSound; w <= lastSound; w++) {
+      if (!silent[w]) continue;
+      let runEnd = w;
+      while (runEnd <= lastSound && silent[runEnd]) runEnd++;
+      const runStartFrame = w * windowFrames;
+      const runEndFrame = runEnd * windowFrames;
+      if (runEndFrame - runStartFrame > maxPause) {
+        // Keep half of the allowed pause on each side of the cut
+        keep.push([start, runStartFrame + Math.floor(maxPause / 2)]);
+        start = runEndFrame - Math.ceil(maxPause / 2);
+      }
+      w = runEnd;
+    }
+  }
+  keep.push([start, end]);
+
+  const length = keep.reduce((sum, [from, to]) => sum + (to - from), 0);
+  if (length === buffer.length) return buffer;
+
+  const output = ctx.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const input = buffer.getChannelData(channel);
+    const out = output.getChannelData(channel);
+    let offset = 0;
+    for (const [from, to] of keep) {
+      out.set(input.subarray(from, to), offset);
+      offset += to - from;
+    }
+  }
+  return output;
+}
+
+// --- Loudness ---
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+/**
+ * K-weighting filter coefficients for any sample rate (BS.1770 pre-filter and
+ * RLB high-pass, derived from their analog prototypes as in libebur128).
+ */
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = 10 ** (gain / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, { b, a }: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * Integrated loudness (gated, 400 ms blocks with 75% overlap) in LUFS.
+ */
+export function measureIntegratedLoudness(buffer: AudioBuffer): number {
+  const filters = kWeightingFilters(buffer.sampleRate);
+  const weighted = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+    filters.reduce((data, filter) => applyBiquad(data, filter), buffer.getChannelData(channel))
+  );
+
+  const blockSize = Math.round(0.4 * buffer.sampleRate);
+  const step = Math.round(0.1 * buffer.sampleRate);
+  const size = Math.min(blockSize, buffer.length);
+  const powers: number[] = [];
+  for (let start = 0; start + size <= buffer.length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + size; i++) sum += data[i] * data[i];
+      power += sum / size;
+    }
+    powers.push(power);
+    if (size < blockSize) break;
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const absoluteGated = powers.filter(p => loudness(p) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+  const relativeGate = loudness(mean(absoluteGated)) - 10;
+  const gated = absoluteGated.filter(p => loudness(p) > relativeGate);
+  return loudness(mean(gated));
+}
+
+// Half-length of the windowed-sinc interpolator used for 4x oversampling
+const INTERPOLATION_TAPS = 8;
+const OVERSAMPLE_PHASES = [0.25, 0.5, 0.75].map(phase =>
+  Array.from({ length: 2 * INTERPOLATION_TAPS }, (_, j) => {
+    const t = j - INTERPOLATION_TAPS + 1 - phase;
+    const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+    const hann = 0.5 + 0.5 * Math.cos((Math.PI * t) / INTERPOLATION_TAPS);
+    return sinc * hann;
+  })
+);
+
+/**
+ * Per-frame peak envelope including inter-sample peaks (4x oversampling),
+ * linked across channels.
+ */
+function truePeakEnvelope(buffer: AudioBuffer): Float32Array {
+  const envelope = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let samplePeak = 0;
+    for (let n = 0; n < data.length; n++) samplePeak = Math.max(samplePeak, Math.abs(data[n]));
+    // Inter-sample peaks only matter next to loud samples, which saves most of the work
+    const threshold = 0.5 * Math.min(samplePeak, 1);
+
+    for (let n = 0; n < data.length; n++) {
+      let peak = Math.abs(data[n]);
+      if (peak > threshold || (n + 1 < data.length && Math.abs(data[n + 1]) > threshold)) {
+        for (const coefficients of OVERSAMPLE_PHASES) {
+          let value = 0;
+          for (let j = 0; j < coefficients.length; j++) {
+            const index = n + j - INTERPOLATION_TAPS + 1;
+            if (index >= 0 && index < data.length) value += coefficients[j] * data[index];
+          }
+          peak = Math.max(peak, Math.abs(value));
+        }
+      }
+      if (peak > envelope[n]) envelope[n] = peak;
+    }
+  }
+  return envelope;
+}
+
+export function measureTruePeak(buffer: AudioBuffer): number {
+  const envelope = truePeakEnvelope(buffer);
+  let peak = 0;
+  for (let i = 0; i < envelope.length; i++) if (envelope[i] > peak) peak = envelope[i];
+  return gainToDb(peak);
+}
+
+export function measureLoudness(buffer: AudioBuffer): LoudnessStats {
+  return { integrated: measureIntegratedLoudness(buffer), truePeak: measureTruePeak(buffer) };
+}
+
+// --- Gain and limiting ---
+
+function applyGain(buffer: AudioBuffer, gain: number): void {
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+}
+
+/**
+ * Look-ahead true-peak limiter, applied in place. Gain reduction ramps in over
+ * the look-ahead window so it is fully applied at each peak, then recovers with
+ * an exponential release.
+ */
+export function limitTruePeak(buffer: AudioBuffer, ceilingDb: number): void {
+  const ceiling = dbToGain(ceilingDb);
+  const envelope = truePeakEnvelope(buffer);
+  const length = buffer.length;
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * buffer.sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * buffer.sampleRate));
+
+  // Gain needed at each frame
+  const required = new Float32Array(length);
+  let limiting = false;
+  for (let i = 0; i < length; i++) {
+    required[i] = envelope[i] > ceiling ? ceiling / envelope[i] : 1;
+    if (required[i] < 1) limiting = true;
+  }
+  if (!limiting) return;
+
+  // Minimum over the look-ahead window (monotonic queue), then release smoothing
+  const held = new Float32Array(length);
+  const queue = new Int32Array(length);
+  let head = 0;
+  let tail = 0;
+  let smoothed = 1;
+  for (let i = 0, next = 0; i < length; i++) {
+    for (; next < Math.min(length, i + lookahead); next++) {
+      while (tail > head && required[queue[tail - 1]] >= required[next]) tail--;
+      queue[tail++] = next;
+    }
+    while (queue[head] < i) head++;
+    const min = required[queue[head]];
+    smoothed = min < smoothed ? min : smoothed + (min - smoothed) * release;
+    held[i] = smoothed;
+  }
+
+  // Moving average over the look-ahead window turns steps into ramps
+  // without ever exceeding the gain needed at a peak
+  const gains = new Float32Array(length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += held[i];
+    if (i >= lookahead) sum -= held[i - lookahead];
+    gains[i] = sum / Math.min(i + 1, lookahead);
+  }
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) data[i] *= gains[i];
+  }
+}
+
+/**
+ * Normalizes the buffer to the target loudness and limits its true peak, in place.
+ * @returns Loudness measured before and after processing.
+ */
+export function masterBuffer(buffer: AudioBuffer, options: MasteringOptions): LoudnessReport {
+  const before = measureLoudness(buffer);
+
+  if (options.targetLufs !== null && Number.isFinite(before.integrated)) {
+    applyGain(buffer, dbToGain(options.targetLufs - before.integrated));
+  }
+  limitTruePeak(buffer, options.truePeakDb);
+
+  return { before, after: measureLoudness(buffer) };
+}
@@ -0,0 +1,159 @@
+/**
+ * Music/ambience bed under a narration: level, looping, fades and automatic
+ * ducking driven by the narration's envelope.
+ *
+ * The bed is built as a Web Audio graph (looping source -> fade gain -> duck gain)
+ * on any BaseAudioContext, and rendered together with the narration in an
+ * OfflineAudioContext so playback and every export use the same mix.
+ */
+
+export interface MusicBedOptions {
+  /** Bed level in dB relative to full scale. */
+  levelDb: number;
+  loop: boolean;
+  fadeInSeconds: number;
+  /** The bed keeps playing this long after the narration ends while it fades out. */
+  fadeOutSeconds: number;
+  /** Lowers the bed while someone is speaking. */
+  duck: boolean;
+  /** Additional attenuation while ducked, in dB. */
+  duckDb: number;
+}
+
+export const DEFAULT_MUSIC_BED_OPTIONS: MusicBedOptions = {
+  levelDb: -18,
+  loop: true,
+  fadeInSeconds: 2,
+  fadeOutSeconds: 3,
+  duck: true,
+  duckDb: -12,
+};
+
+// Control rate of the ducking automation curve
+const DUCK_CURVE_RATE = 100;
+// Level above which the narration counts as speech
+const SPEECH_THRESHOLD_DB = -45;
+// The bed starts dipping this long before speech and recovers over the release time
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.6;
+// Music is decoded at this rate so the bed keeps its fidelity in exports
+const MUSIC_SAMPLE_RATE = 48000;
+
+const dbToGain = (db: number): number => 10 ** (db / 20);
+
+/**
+ * Decodes a local music or ambience file.
+ */
+export async function loadMusicFile(file: File): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  // Any context can decode; an offline one avoids resampling to the playback rate
+  const ctx = new OfflineAudioContext(2, 1, MUSIC_SAMPLE_RATE);
+  return ctx.decodeAudioData(data);
+}
+
+/**
+ * Computes the bed's gain over time (1 = not ducked) from the narration's envelope,
+ * sampled at `DUCK_CURVE_RATE`. Ducking begins slightly ahead of speech, which is
+ * possible because the whole narration is known in advance.
+ */
+export function computeDuckingCurve(voice: AudioBuffer, duckDb: number, durationSeconds: number): Float32Array {
+  const steps = Math.max(2, Math.ceil(durationSeconds * DUCK_CURVE_RATE));
+  const windowFrames = Math.max(1, Math.round(voice.sampleRate / DUCK_CURVE_RATE));
+  const threshold = dbToGain(SPEECH_THRESHOLD_DB);
+
+  const speaking = new Uint8Array(steps);
+  for (let step = 0; step < steps; step++) {
+    const start = step * windowFrames;
+    const end = Math.min(voice.length, start + windowFrames);
+    if (start >= end) break;
+    let sum = 0;
+    for (let channel = 0; channel < voice.numberOfChannels; channel++) {
+      const data = voice.getChannelData(channel);
+      for (let i = start; i < end; i++) sum += data[i] * data[i];
+    }
+    speaking[step] = Math.sqrt(sum / ((end - start) * voice.numberOfChannels)) > threshold ? 1 : 0;
+  }
+
+  // Pull each speech onset forward by the attack time
+  const attackSteps = Math.round(DUCK_ATTACK_SECONDS * DUCK_CURVE_RATE);
+  const target = new Float32Array(steps).fill(1);
+  const ducked = dbToGain(duckDb);
+  for (let step = 0; step < steps; step++) {
+    if (!speaking[step]) continue;
+    for (let j = Math.max(0, step - attackSteps); j <= step; j++) target[j] = ducked;
+  }
+
+  // Ramp down over the attack, recover over the release
+  const attack = 1 - Math.exp(-1 / Math.max(1, attackSteps / 3));
+  const release = 1 - Math.exp(-1 / (DUCK_RELEASE_SECONDS * DUCK_CURVE_RATE / 3));
+  const curve = new Float32Array(steps);
+  let gain = 1;
+  for (let step = 0; step < steps; step++) {
+    gain += (target[step] - gain) * (target[step] < gain ? attack : release);
+    curve[step] = gain;
+  }
+  return curve;
+}
+
+/**
+ * Connects the bed to `destination` and schedules it to start at `when`.
+ * @param durationSeconds How long the bed plays, including its fade-out.
+ * @param duckingCurve Optional gain curve from `computeDuckingCurve`.
+ * @returns The bed's source node, already started.
+ */
+export function connectMusicBed(
+  ctx: BaseAudioContext,
+  music: AudioBuffer,
+  options: MusicBedOptions,
+  destination: AudioNode,
+  durationSeconds: number,
+  duckingCurve?: Float32Array,
+  when: number = 0,
+): AudioBufferSourceNode {
+  const source = ctx.createBufferSource();
+  source.buffer = music;
+  source.loop = options.loop;
+
+  const fade = ctx.createGain();
+  const level = dbToGain(options.levelDb);
+  const fadeIn = Math.min(options.fadeInSeconds, durationSeconds / 2);
+  const fadeOut = Math.min(options.fadeOutSeconds, durationSeconds / 2);
+  fade.gain.setValueAtTime(fadeIn > 0 ? 0 : level, when);
+  if (fadeIn > 0) fade.gain.linearRampToValueAtTime(level, when + fadeIn);
+  fade.gain.setValueAtTime(level, when + durationSeconds - fadeOut);
+  fade.gain.linearRampToValueAtTime(0, when + durationSeconds);
+
+  const duck = ctx.createGain();
+  if (duckingCurve) {
+    duck.gain.setValueCurveAtTime(duckingCurve, when, durationSeconds);
+  }
+
+  source.connect(fade);
+  fade.connect(duck);
+  duck.connect(destination);
+  source.start(when);
+  source.stop(when + durationSeconds);
+  return source;
+}
+
+/**
+ * Renders the narration with the music bed underneath.
+ * The result runs `fadeOutSeconds` past the narration and has the higher of the
+ * two sample rates and channel counts.
+ */
+export async function renderMusicBedMix(voice: AudioBuffer, music: AudioBuffer, options: MusicBedOptions): Promise<AudioBuffer> {
+  const sampleRate = Math.max(voice.sampleRate, music.sampleRate);
+  const channels = Math.max(voice.numberOfChannels, music.numberOfChannels);
+  const duration = voice.duration + options.fadeOutSeconds;
+  const ctx = new OfflineAudioContext(channels, Math.ceil(duration * sampleRate), sampleRate);
+
+  const narration = ctx.createBufferSource();
+  narration.buffer = voice;
+  narration.connect(ctx.destination);
+  narration.start(0);
+
+  const curve = options.duck ? computeDuckingCurve(voice, options.duckDb, duration) : undefined;
+  connectMusicBed(ctx, music, options, ctx.destination, duration, curve);
+
+  return ctx.startRendering();
+}
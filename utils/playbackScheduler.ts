@@ -0,0 +1,80 @@
+/**
+ * Gapless playback of audio segments that arrive over time.
+ *
+ * Segments carry their position on the story timeline. They are scheduled on the
+ * AudioContext clock relative to the moment the first segment arrived, so they play
+ * back to back without gaps. If a segment arrives after its slot has passed
+ * (generation fell behind playback), the timeline is shifted forward so it starts
+ * right away and later segments keep their relative spacing.
+ */
+export interface PlaybackScheduler {
+  /** Schedules `buffer` to play at `startTime` seconds on the story timeline. */
+  schedule: (buffer: AudioBuffer, startTime: number) => void;
+  /** Current playback position on the story timeline, in seconds. */
+  getPosition: () => number;
+  /** Signals that no more segments will arrive; `onEnded` fires once the queue drains. */
+  finish: () => void;
+  /** Stops all playing and queued segments. `onEnded` is not called. */
+  stop: () => void;
+}
+
+// Scheduling lead time so the first samples are never scheduled in the past.
+const SCHEDULE_LEAD_SECONDS = 0.1;
+
+export function createPlaybackScheduler(
+  ctx: AudioContext,
+  destination: AudioNode,
+  onEnded: () => void,
+): PlaybackScheduler {
+  const sources = new Set<AudioBufferSourceNode>();
+  let timelineOrigin: number | null = null;
+  let finished = false;
+  let stopped = false;
+
+  const checkEnded = () => {
+    if (finished && !stopped && sources.size === 0) {
+      onEnded();
+    }
+  };
+
+  return {
+    schedule(buffer, startTime) {
+      if (stopped) return;
+
+      const earliest = ctx.currentTime + SCHEDULE_LEAD_SECONDS;
+      if (timelineOrigin === null || timelineOrigin + startTime < earliest) {
+        timelineOrigin = earliest - startTime;
+      }
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(destination);
+      source.onended = () => {
+        sources.delete(source);
+        checkEnded();
+      };
+      source.start(timelineOrigin + startTime);
+      sources.add(source);
+    },
+
+    getPosition() {
+      return timelineOrigin === null ? 0 : Math.max(0, ctx.currentTime - timelineOrigin);
+    },
+
+    finish() {
+      finished = true;
+      checkEnded();
+    },
+
+    stop() {
+      stopped = true;
+      sources.forEach(source => {
+        source.onended = null;
+        try {
+          source.stop();
+        } catch (e) { /* ignore if never started */ }
+      });
+      sources.clear();
+    },
+  };
+}
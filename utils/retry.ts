@@ -0,0 +1,84 @@
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries: number;
+  /** Delay before the first retry, in milliseconds; doubled for each further retry. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  /** Whether a failure is worth retrying. */
+  shouldRetry: (error: unknown) => boolean;
+  /** Overrides the computed delay, e.g. with a delay the server asked for. */
+  delayFor?: (error: unknown) => number | undefined;
+  /** Called before waiting for each retry. */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff with jitter,
+ * a random delay between half and all of the exponential step, so that parallel
+ * requests that failed together do not retry in lockstep.
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + (Math.random() * cap) / 2);
+}
+
+/**
+ * Runs `task`, retrying failures that `shouldRetry` accepts with exponential
+ * backoff. Aborting `signal` stops both the task and any wait between attempts.
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, signal, shouldRetry, delayFor, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) throw error;
+      const delayMs = Math.min(maxDelayMs, delayFor?.(error) ?? backoffDelay(attempt + 1, baseDelayMs, maxDelayMs));
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/** Resolves after `ms`, or rejects with the abort reason when `signal` is aborted first. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A signal that aborts when `signal` does, or with a `TimeoutError` after `ms`.
+ * Call `clear` once the work is done so the timer does not outlive it.
+ */
+export function withTimeout(ms: number, signal?: AbortSignal): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  const timer = setTimeout(() => controller.abort(new DOMException('The operation timed out.', 'TimeoutError')), ms);
+
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { StyleConfig, TextChunk } from "../types";
+
+/**
+ * Named delivery directions. The direction text is sent to the model as an
+ * instruction ahead of the script; it is not read aloud.
+ */
+export interface StylePreset {
+  id: string;
+  label: string;
+  direction: string;
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: "neutral", label: "Neutral", direction: "" },
+  { id: "bedtime", label: "Warm bedtime storyteller", direction: "Read this like a warm, gentle bedtime storyteller, soft and unhurried" },
+  { id: "dramatic", label: "Slow and dramatic", direction: "Read this slowly and dramatically, with weighty pauses" },
+  { id: "excited", label: "Excited", direction: "Read this in an excited, energetic and upbeat voice" },
+  { id: "calm", label: "Calm narrator", direction: "Read this in a calm, clear and even narrator's voice" },
+  { id: "whisper", label: "Whispered", direction: "Whisper this softly and secretively" },
+  { id: "news", label: "News anchor", direction: "Read this crisply and confidently, like a news anchor" },
+  { id: "spooky", label: "Spooky", direction: "Read this in a hushed, suspenseful and spooky tone" },
+];
+
+/**
+ * Resolves the direction for a chunk: its paragraph override, else the global direction.
+ * @returns The direction, or undefined when the chunk should use the default read.
+ */
+export function resolveChunkStyle(style: StyleConfig | undefined, chunk: TextChunk): string | undefined {
+  const direction = (style?.paragraphs?.[chunk.paragraphIndex] ?? style?.direction ?? "").trim();
+  return direction || undefined;
+}
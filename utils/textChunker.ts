@@ -0,0 +1,149 @@
+import { TextChunk } from '../types';
+
+/**
+ * Default upper bound for the number of characters sent in a single TTS request.
+ * Keeps each request comfortably below the model's input limit and its response
+ * well inside the audio length the model reliably produces in one go.
+ */
+export const DEFAULT_MAX_CHUNK_CHARS = 1200;
+
+interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Sentence terminators for Latin and Devanagari scripts (। danda, ॥ double danda).
+const SENTENCE_TERMINATORS = '.!?।॥';
+// Closing punctuation that belongs to the sentence it follows.
+const CLOSING_MARKS = '"\'”’»)]';
+
+/**
+ * Splits text into paragraph ranges separated by one or more blank lines.
+ * Leading and trailing whitespace is excluded from each range.
+ */
+export function splitParagraphs(text: string): TextRange[] {
+  const ranges: TextRange[] = [];
+  const separator = /\n[ \t]*\n\s*/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = separator.exec(text)) !== null) {
+    pushTrimmed(text, start, match.index, ranges);
+    start = match.index + match[0].length;
+  }
+  pushTrimmed(text, start, text.length, ranges);
+
+  return ranges;
+}
+
+/**
+ * Splits a range of text into sentence ranges. A sentence ends at a run of
+ * terminators (including the Devanagari danda) followed by optional closing
+ * quotes/brackets and whitespace.
+ */
+export function splitSentences(text: string, range: TextRange = { start: 0, end: text.length }): TextRange[] {
+  const ranges: TextRange[] = [];
+  let sentenceStart = range.start;
+  let i = range.start;
+
+  while (i < range.end) {
+    if (SENTENCE_TERMINATORS.includes(text[i])) {
+      let end = i + 1;
+      while (end < range.end && SENTENCE_TERMINATORS.includes(text[end])) end++;
+      while (end < range.end && CLOSING_MARKS.includes(text[end])) end++;
+
+      // Only treat it as a boundary when followed by whitespace or the end of the range,
+      // so decimals like "3.5" and abbreviations without spaces stay intact.
+      if (end === range.end || /\s/.test(text[end])) {
+        pushTrimmed(text, sentenceStart, end, ranges);
+        sentenceStart = end;
+      }
+      i = end;
+    } else {
+      i++;
+    }
+  }
+  pushTrimmed(text, sentenceStart, range.end, ranges);
+
+  return ranges;
+}
+
+/**
+ * Splits story text into chunks suitable for individual TTS requests.
+ *
+ * Chunks never cross paragraph boundaries. Paragraphs longer than `maxChars` are
+ * packed sentence by sentence, and sentences that are still too long fall back to
+ * splitting on whitespace.
+ *
+ * @param text The full story text.
+ * @param maxChars Maximum number of characters per chunk.
+ * @returns Ordered chunks with their offsets into `text`.
+ */
+export function chunkText(text: string, maxChars: number = DEFAULT_MAX_CHUNK_CHARS): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  splitParagraphs(text).forEach((paragraph, paragraphIndex) => {
+    if (paragraph.end - paragraph.start <= maxChars) {
+      chunks.push(toChunk(text, paragraph, paragraphIndex));
+      return;
+    }
+
+    let current: TextRange | null = null;
+    const flush = () => {
+      if (current) chunks.push(toChunk(text, current, paragraphIndex));
+      current = null;
+    };
+
+    for (const sentence of splitSentences(text, paragraph)) {
+      for (const piece of splitLongRange(text, sentence, maxChars)) {
+        if (current && piece.end - current.start <= maxChars) {
+          current.end = piece.end;
+        } else {
+          flush();
+          current = { ...piece };
+        }
+      }
+    }
+    flush();
+  });
+
+  return chunks;
+}
+
+/**
+ * Breaks a range that exceeds `maxChars` on whitespace. A single word longer than
+ * `maxChars` is hard-split as a last resort.
+ */
+function splitLongRange(text: string, range: TextRange, maxChars: number): TextRange[] {
+  if (range.end - range.start <= maxChars) return [range];
+
+  const pieces: TextRange[] = [];
+  let start = range.start;
+
+  while (range.end - start > maxChars) {
+    let cut = text.lastIndexOf(' ', start + maxChars);
+    if (cut <= start) cut = start + maxChars;
+    pushTrimmed(text, start, cut, pieces);
+    start = cut;
+  }
+  pushTrimmed(text, start, range.end, pieces);
+
+  return pieces;
+}
+
+function pushTrimmed(text: string, start: number, end: number, ranges: TextRange[]): void {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (end > start) {
+    ranges.push({ start, end });
+  }
+}
+
+function toChunk(text: string, range: TextRange, paragraphIndex: number): TextChunk {
+  return {
+    text: text.slice(range.start, range.end),
+    paragraphIndex,
+    start: range.start,
+    end: range.end,
+  };
+}
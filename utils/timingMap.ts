@@ -0,0 +1,93 @@
+import { TextChunk, TimedSegment, TimedSpan } from '../types';
+import { splitSentences } from './textChunker';
+
+// Extra weight (in letter equivalents) for the pause a punctuation mark causes.
+const CLAUSE_PAUSE_WEIGHT = 2;
+const SENTENCE_PAUSE_WEIGHT = 4;
+
+/**
+ * Estimates how long a piece of text takes to speak relative to other text:
+ * letters and digits count once, punctuation adds weight for the pause it causes.
+ */
+function speechWeight(text: string): number {
+  const letters = text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  const clauses = text.match(/[,;:—–]/g)?.length ?? 0;
+  const sentences = text.match(/[.!?।॥]/g)?.length ?? 0;
+  return Math.max(1, letters + clauses * CLAUSE_PAUSE_WEIGHT + sentences * SENTENCE_PAUSE_WEIGHT);
+}
+
+/**
+ * Spreads the time range of `span` over `parts` proportionally to their speech weight.
+ */
+function distribute(text: string, parts: { start: number; end: number }[], startTime: number, endTime: number): TimedSpan[] {
+  const weights = parts.map(part => speechWeight(text.slice(part.start, part.end)));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let cursor = startTime;
+
+  return parts.map((part, i) => {
+    const duration = ((endTime - startTime) * weights[i]) / total;
+    const span = { start: part.start, end: part.end, startTime: cursor, endTime: cursor + duration };
+    cursor += duration;
+    return span;
+  });
+}
+
+function wordRanges(text: string, start: number, end: number): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  const word = /\S+/g;
+  word.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = word.exec(text)) !== null && match.index < end) {
+    ranges.push({ start: match.index, end: Math.min(end, match.index + match[0].length) });
+  }
+  return ranges;
+}
+
+/**
+ * Builds the sentence and word timing map of a synthesized story. Chunk boundaries
+ * are exact (from the decoded buffers); sentences and words inside a chunk are
+ * estimated proportionally to their length.
+ *
+ * @param text The story text the chunks were cut from.
+ * @param chunks The synthesized chunks.
+ * @param chunkStartTimes Start of each chunk on the stitched timeline, in seconds.
+ * @param chunkDurations Duration of each chunk's audio, in seconds.
+ */
+export function buildTimingMap(
+  text: string,
+  chunks: TextChunk[],
+  chunkStartTimes: number[],
+  chunkDurations: number[],
+): TimedSegment[] {
+  return chunks.flatMap((chunk, i) => {
+    const sentences = splitSentences(text, { start: chunk.start, end: chunk.end });
+    const startTime = chunkStartTimes[i];
+    const endTime = startTime + chunkDurations[i];
+
+    return distribute(text, sentences, startTime, endTime).map(sentence => ({
+      ...sentence,
+      words: distribute(text, wordRanges(text, sentence.start, sentence.end), sentence.startTime, sentence.endTime),
+    }));
+  });
+}
+
+/**
+ * Finds the span being spoken at `time` (binary search over ordered spans).
+ * Returns the index, or -1 before the first span starts.
+ */
+export function findSpanAt(spans: TimedSpan[], time: number): number {
+  let low = 0;
+  let high = spans.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (spans[mid].startTime <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,349 @@
+import { CaptionCue } from './captions';
+import { findSpanAt } from './timingMap';
+import { wrapText } from './audiobook';
+import {
+  DEFAULT_VISUALIZER_THEME,
+  VisualizerMode,
+  VisualizerTheme,
+  computeWaveformPeaks,
+  createFrameRenderer,
+  renderWaveformLayer,
+} from './visualizer';
+
+/**
+ * Video export: a canvas scene with a title card, the visualizer and the current
+ * caption, recorded with the narration through MediaRecorder. Recording runs in
+ * real time, so a ten-minute story takes ten minutes to render.
+ */
+
+export type VideoAspect = '16:9' | '9:16' | '1:1';
+
+export const VIDEO_ASPECTS: { id: VideoAspect; label: string; ratio: [number, number] }[] = [
+  { id: '16:9', label: '16:9 (landscape)', ratio: [16, 9] },
+  { id: '9:16', label: '9:16 (vertical)', ratio: [9, 16] },
+  { id: '1:1', label: '1:1 (square)', ratio: [1, 1] },
+];
+
+/** Resolutions by their short side, in pixels. */
+export const VIDEO_RESOLUTIONS = [480, 720, 1080];
+
+export interface VideoFormat {
+  label: string;
+  mimeType: string;
+  ext: string;
+}
+
+export interface VideoSettings {
+  mimeType: string;
+  aspect: VideoAspect;
+  resolution: number;
+  visualizer: VisualizerMode;
+  /** Show the sentence being read as a caption. */
+  captions: boolean;
+}
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  mimeType: '',
+  aspect: '16:9',
+  resolution: 720,
+  visualizer: 'bars',
+  captions: true,
+};
+
+export interface VideoExportOptions {
+  format: VideoFormat;
+  aspect: VideoAspect;
+  resolution: number;
+  visualizer: VisualizerMode;
+  title: string;
+  subtitle: string;
+  /** Drawn behind the scene, cropped to fill the frame. */
+  background?: ImageBitmap | null;
+  /** Caption cues on the narration timeline; empty for no captions. */
+  captions: CaptionCue[];
+  theme?: VisualizerTheme;
+  signal?: AbortSignal;
+}
+
+const FRAME_RATE = 30;
+// Encoder budget per pixel per frame; about 7.5 Mbps at 1080p30
+const BITS_PER_PIXEL = 0.12;
+const AUDIO_BITS_PER_SECOND = 128_000;
+// The title card is shown alone before the narration starts, then fades out
+const TITLE_CARD_SECONDS = 3;
+const TITLE_FADE_SECONDS = 0.5;
+// Held after the narration so the last words are not cut off
+const TAIL_SECONDS = 1;
+// Lets the recorder start before the first frame is due
+const START_DELAY_SECONDS = 0.1;
+
+const VIDEO_CANDIDATES: VideoFormat[] = [
+  { label: 'MP4 (H.264)', mimeType: 'video/mp4;codecs=avc1.42E01E,mp4a.40.2', ext: 'mp4' },
+  { label: 'MP4', mimeType: 'video/mp4', ext: 'mp4' },
+  { label: 'WebM (VP9)', mimeType: 'video/webm;codecs=vp9,opus', ext: 'webm' },
+  { label: 'WebM (VP8)', mimeType: 'video/webm;codecs=vp8,opus', ext: 'webm' },
+  { label: 'WebM', mimeType: 'video/webm', ext: 'webm' },
+];
+
+/**
+ * Video formats the browser's MediaRecorder can write, preferred first.
+ */
+export function getSupportedVideoFormats(): VideoFormat[] {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') return [];
+  return VIDEO_CANDIDATES.filter(format => MediaRecorder.isTypeSupported(format.mimeType));
+}
+
+/** Frame size for an aspect ratio, rounded to even numbers as video encoders require. */
+export function videoDimensions(aspect: VideoAspect, resolution: number): { width: number; height: number } {
+  const [w, h] = VIDEO_ASPECTS.find(a => a.id === aspect)!.ratio;
+  const scale = resolution / Math.min(w, h);
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return { width: even(w * scale), height: even(h * scale) };
+}
+
+/**
+ * Renders the narration as a video. Audio runs through an analyser of `ctx` that
+ * drives the visualizer, and on into the recording rather than the speakers.
+ * Rendering is paced by animation frames, so the tab should stay visible.
+ * @param onProgress Receives the rendered fraction, 0-1.
+ * @throws The abort reason when `options.signal` is aborted.
+ */
+export async function exportVideo(
+  ctx: AudioContext,
+  buffer: AudioBuffer,
+  options: VideoExportOptions,
+  onProgress?: (fraction: number) => void,
+): Promise<Blob> {
+  const { format, title, subtitle, background, captions, signal } = options;
+  const theme = options.theme ?? DEFAULT_VISUALIZER_THEME;
+  const { width, height } = videoDimensions(options.aspect, options.resolution);
+  const unit = Math.min(width, height);
+  signal?.throwIfAborted();
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const g = canvas.getContext('2d')!;
+
+  // Visualizer panel, drawn on its own canvas and composited into the scene
+  const panel = document.createElement('canvas');
+  panel.width = Math.round(width * 0.8);
+  panel.height = Math.round(unit * 0.22);
+  const panelX = (width - panel.width) / 2;
+  const panelY = height * (options.aspect === '9:16' ? 0.42 : 0.38);
+
+  // Same analysis as the player's visualizer, on a path of its own
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 256;
+  const destination = ctx.createMediaStreamDestination();
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(analyser);
+  analyser.connect(destination);
+
+  const drawPanel = createPanelRenderer(options.visualizer, panel, analyser, buffer, theme, unit / 540);
+
+  const video = canvas.captureStream(FRAME_RATE);
+  const stream = new MediaStream([...video.getVideoTracks(), ...destination.stream.getAudioTracks()]);
+  const recorder = new MediaRecorder(stream, {
+    mimeType: format.mimeType,
+    videoBitsPerSecond: Math.round(width * height * FRAME_RATE * BITS_PER_PIXEL),
+    audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+  });
+  const pieces: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) pieces.push(e.data);
+  };
+
+  const total = TITLE_CARD_SECONDS + buffer.duration + TAIL_SECONDS;
+  const startTime = ctx.currentTime + START_DELAY_SECONDS;
+  const narrationStart = startTime + TITLE_CARD_SECONDS;
+
+  const drawScene = (time: number) => {
+    drawBackground(g, width, height, background, theme);
+
+    const narration = time - TITLE_CARD_SECONDS;
+    if (narration >= 0) {
+      g.globalAlpha = 0.9;
+      drawPanel(narration);
+      g.drawImage(panel, panelX, panelY);
+      g.globalAlpha = 1;
+
+      g.fillStyle = '#e2e8f0';
+      g.textAlign = 'center';
+      g.textBaseline = 'top';
+      g.font = `600 ${Math.round(unit * 0.045)}px system-ui, sans-serif`;
+      g.fillText(title, width / 2, unit * 0.06, width * 0.9);
+
+      const cue = captions.length > 0 ? captions[findSpanAt(captions, narration)] : undefined;
+      if (cue && narration >= cue.startTime && narration < cue.endTime) {
+        drawCaption(g, cue.lines.join(' '), width, height, unit, options.aspect);
+      }
+    }
+
+    const cardAlpha = Math.min(1, Math.max(0, (TITLE_CARD_SECONDS - time) / TITLE_FADE_SECONDS));
+    if (cardAlpha > 0) {
+      g.globalAlpha = cardAlpha;
+      drawTitleCard(g, title, subtitle, width, height, unit, background, theme);
+      g.globalAlpha = 1;
+    }
+  };
+
+  return new Promise<Blob>((resolve, reject) => {
+    let frame = 0;
+    let aborted = false;
+
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      signal?.removeEventListener('abort', onAbort);
+      try {
+        source.stop();
+      } catch {
+        // Not started yet
+      }
+      source.disconnect();
+      analyser.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    };
+
+    const onAbort = () => {
+      aborted = true;
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      } else {
+        cleanup();
+        reject(signal?.reason);
+      }
+    };
+
+    recorder.onstop = () => {
+      cleanup();
+      if (aborted) reject(signal?.reason);
+      else resolve(new Blob(pieces, { type: format.mimeType }));
+    };
+    recorder.onerror = (e) => {
+      cleanup();
+      reject((e as ErrorEvent).error ?? new Error('Video recording failed.'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    drawScene(0);
+    recorder.start(1000);
+    source.start(narrationStart);
+
+    const tick = () => {
+      const time = Math.max(0, ctx.currentTime - startTime);
+      drawScene(time);
+      onProgress?.(Math.min(1, time / total));
+      if (time >= total) {
+        recorder.stop();
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+  });
+}
+
+/** Returns a function that paints the visualizer panel for a narration time. */
+function createPanelRenderer(
+  mode: VisualizerMode,
+  panel: HTMLCanvasElement,
+  analyser: AnalyserNode,
+  buffer: AudioBuffer,
+  theme: VisualizerTheme,
+  scale: number,
+): (time: number) => void {
+  const ctx = panel.getContext('2d')!;
+  if (mode !== 'waveform') {
+    const render = createFrameRenderer(mode, ctx, analyser, theme, scale);
+    render(true);
+    return () => render();
+  }
+
+  const peaks = computeWaveformPeaks(buffer, panel.width);
+  const unplayed = renderWaveformLayer(peaks, panel.width, panel.height, theme.secondary, theme.clip);
+  const played = renderWaveformLayer(peaks, panel.width, panel.height, theme.primary, theme.clip);
+  return (time) => {
+    const x = Math.round(Math.min(1, time / buffer.duration) * panel.width);
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, panel.width, panel.height);
+    ctx.drawImage(unplayed, 0, 0);
+    if (x > 0) ctx.drawImage(played, 0, 0, x, panel.height, 0, 0, x, panel.height);
+    ctx.fillStyle = theme.playhead;
+    ctx.fillRect(Math.min(x, panel.width - scale), 0, Math.max(1, scale), panel.height);
+  };
+}
+
+function drawBackground(
+  g: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  image: ImageBitmap | null | undefined,
+  theme: VisualizerTheme,
+) {
+  if (!image) {
+    const gradient = g.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, theme.background);
+    gradient.addColorStop(1, '#1e1b4b'); // Indigo 950
+    g.fillStyle = gradient;
+    g.fillRect(0, 0, width, height);
+    return;
+  }
+  // Cover: scale to fill the frame and crop the overflow, then darken for legibility
+  const scale = Math.max(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  g.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+  g.fillStyle = 'rgba(2, 6, 23, 0.55)';
+  g.fillRect(0, 0, width, height);
+}
+
+function drawTitleCard(
+  g: CanvasRenderingContext2D,
+  title: string,
+  subtitle: string,
+  width: number,
+  height: number,
+  unit: number,
+  background: ImageBitmap | null | undefined,
+  theme: VisualizerTheme,
+) {
+  drawBackground(g, width, height, background, theme);
+  g.textAlign = 'center';
+  g.textBaseline = 'middle';
+  g.fillStyle = '#f8fafc';
+  const fontSize = Math.round(unit * 0.09);
+  g.font = `bold ${fontSize}px system-ui, sans-serif`;
+  const lines = wrapText(g, title, width * 0.8).slice(0, 4);
+  const lineHeight = fontSize * 1.2;
+  const top = height * 0.45 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => g.fillText(line, width / 2, top + i * lineHeight));
+
+  g.fillStyle = '#cbd5e1';
+  g.font = `${Math.round(unit * 0.04)}px system-ui, sans-serif`;
+  g.fillText(subtitle, width / 2, top + lines.length * lineHeight + unit * 0.04, width * 0.9);
+}
+
+function drawCaption(g: CanvasRenderingContext2D, text: string, width: number, height: number, unit: number, aspect: VideoAspect) {
+  const fontSize = Math.round(unit * (aspect === '9:16' ? 0.06 : 0.05));
+  g.font = `600 ${fontSize}px system-ui, sans-serif`;
+  // Cues are wrapped for subtitle files; re-wrap to the frame width
+  const lines = wrapText(g, text, width * 0.86).slice(0, 3);
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.5;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const boxWidth = Math.max(...lines.map(line => g.measureText(line).width)) + padding * 2;
+  const boxTop = height * (aspect === '9:16' ? 0.72 : 0.78) - boxHeight / 2;
+
+  g.fillStyle = 'rgba(2, 6, 23, 0.7)';
+  g.beginPath();
+  g.roundRect((width - boxWidth) / 2, boxTop, boxWidth, boxHeight, padding);
+  g.fill();
+
+  g.fillStyle = '#f8fafc';
+  g.textAlign = 'center';
+  g.textBaseline = 'middle';
+  lines.forEach((line, i) => g.fillText(line, width / 2, boxTop + padding + lineHeight * (i + 0.5)));
+}
@@ -0,0 +1,205 @@
+export type VisualizerMode = 'bars' | 'oscilloscope' | 'spectrogram' | 'waveform';
+
+export const VISUALIZER_MODES: { id: VisualizerMode; label: string }[] = [
+  { id: 'bars', label: 'Bars' },
+  { id: 'oscilloscope', label: 'Scope' },
+  { id: 'spectrogram', label: 'Spectrogram' },
+  { id: 'waveform', label: 'Waveform' },
+];
+
+/** Colors of the visualizer; any CSS color works. */
+export interface VisualizerTheme {
+  background: string;
+  /** Low end of the bar gradient, the scope trace and the played part of the waveform. */
+  primary: string;
+  /** High end of the bar gradient and the unplayed part of the waveform. */
+  secondary: string;
+  playhead: string;
+  /** Waveform columns that reach full scale. */
+  clip: string;
+}
+
+export const DEFAULT_VISUALIZER_THEME: VisualizerTheme = {
+  background: '#0f172a', // Slate 900
+  primary: '#3b82f6', // Blue 500
+  secondary: '#8b5cf6', // Violet 500
+  playhead: '#f8fafc', // Slate 50
+  clip: '#ef4444', // Red 500
+};
+
+/** Sample magnitude counted as clipping. */
+const CLIP_LEVEL = 0.999;
+
+/** Per-column sample range of a buffer, for drawing its waveform. */
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+  /** 1 where a sample in the column reaches full scale. */
+  clipped: Uint8Array;
+}
+
+/**
+ * Reduces a buffer to the lowest and highest sample of each of `columns` equal
+ * slices, over all channels.
+ */
+export function computeWaveformPeaks(buffer: AudioBuffer, columns: number): WaveformPeaks {
+  const count = Math.max(1, Math.floor(columns));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  const clipped = new Uint8Array(count);
+  const samplesPerColumn = buffer.length / count;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let column = 0; column < count; column++) {
+      const start = Math.floor(column * samplesPerColumn);
+      const end = Math.min(data.length, Math.max(start + 1, Math.floor((column + 1) * samplesPerColumn)));
+      let lo = min[column];
+      let hi = max[column];
+      for (let i = start; i < end; i++) {
+        const sample = data[i];
+        if (sample < lo) lo = sample;
+        if (sample > hi) hi = sample;
+      }
+      min[column] = lo;
+      max[column] = hi;
+      if (hi >= CLIP_LEVEL || lo <= -CLIP_LEVEL) clipped[column] = 1;
+    }
+  }
+  return { min, max, clipped };
+}
+
+/**
+ * Resolves a CSS color to RGB components by letting a canvas parse it.
+ */
+export function resolveColor(color: string): [number, number, number] {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return [0, 0, 0];
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return [r, g, b];
+}
+
+/**
+ * Builds a 256-step color ramp from the background through `secondary` and
+ * `primary` to white, as packed RGBA for ImageData. Index 0 is silence.
+ */
+export function buildSpectrogramPalette(theme: VisualizerTheme): Uint8ClampedArray {
+  const stops = [theme.background, theme.secondary, theme.primary, '#ffffff'].map(resolveColor);
+  const palette = new Uint8ClampedArray(256 * 4);
+  for (let i = 0; i < 256; i++) {
+    const t = (i / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(t));
+    const f = t - index;
+    for (let c = 0; c < 3; c++) {
+      palette[i * 4 + c] = stops[index][c] + (stops[index + 1][c] - stops[index][c]) * f;
+    }
+    palette[i * 4 + 3] = 255;
+  }
+  return palette;
+}
+
+/** Draws one frame of a live mode; `idle` paints the resting state instead. */
+export type FrameRenderer = (idle?: boolean) => void;
+
+/**
+ * Creates the renderer of a live mode, filling the whole canvas of `ctx`. Sizes are
+ * in canvas pixels; `dpr` scales gaps and line widths.
+ */
+export function createFrameRenderer(
+  mode: Exclude<VisualizerMode, 'waveform'>,
+  ctx: CanvasRenderingContext2D,
+  analyser: AnalyserNode,
+  theme: VisualizerTheme,
+  dpr: number,
+): FrameRenderer {
+  const { width, height } = ctx.canvas;
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+
+  const clear = () => {
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, width, height);
+  };
+
+  if (mode === 'bars') {
+    const gradient = ctx.createLinearGradient(0, height, 0, 0);
+    gradient.addColorStop(0, theme.primary);
+    gradient.addColorStop(1, theme.secondary);
+    const barWidth = (width / frequencies.length) * 2.5;
+
+    return (idle) => {
+      if (idle) frequencies.fill(0);
+      else analyser.getByteFrequencyData(frequencies);
+      clear();
+      ctx.fillStyle = gradient;
+      for (let i = 0, x = 0; i < frequencies.length && x < width; i++, x += barWidth + dpr) {
+        // A sliver even in silence, so the resting state is visible
+        const barHeight = Math.max(dpr, (frequencies[i] / 255) * height);
+        ctx.fillRect(x, height - barHeight, barWidth, barHeight);
+      }
+    };
+  }
+
+  if (mode === 'oscilloscope') {
+    const samples = new Float32Array(analyser.fftSize);
+    return (idle) => {
+      if (idle) samples.fill(0);
+      else analyser.getFloatTimeDomainData(samples);
+      clear();
+      ctx.lineWidth = 1.5 * dpr;
+      ctx.strokeStyle = theme.primary;
+      ctx.beginPath();
+      for (let i = 0; i < samples.length; i++) {
+        const x = (i / (samples.length - 1)) * width;
+        const y = (0.5 - samples[i] / 2) * height;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+  }
+
+  // Spectrogram: scroll left one pixel per frame and paint the newest column at the right edge
+  const palette = buildSpectrogramPalette(theme);
+  const column = ctx.createImageData(1, height);
+  return (idle) => {
+    if (idle) {
+      clear();
+      return;
+    }
+    analyser.getByteFrequencyData(frequencies);
+    ctx.drawImage(ctx.canvas, -1, 0);
+    for (let y = 0; y < height; y++) {
+      // Low frequencies at the bottom
+      const bin = Math.floor(((height - 1 - y) / height) * frequencies.length);
+      column.data.set(palette.subarray(frequencies[bin] * 4, frequencies[bin] * 4 + 4), y * 4);
+    }
+    ctx.putImageData(column, width - 1, 0);
+  };
+}
+
+/** Paints waveform columns in one color (clipped columns in `clipColor`) on a transparent layer. */
+export function renderWaveformLayer(
+  peaks: WaveformPeaks,
+  width: number,
+  height: number,
+  color: string,
+  clipColor: string,
+): HTMLCanvasElement {
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const ctx = layer.getContext('2d');
+  if (!ctx) return layer;
+  const mid = height / 2;
+  for (let x = 0; x < peaks.max.length; x++) {
+    const top = mid - peaks.max[x] * mid;
+    const bottom = mid - peaks.min[x] * mid;
+    ctx.fillStyle = peaks.clipped[x] ? clipColor : color;
+    ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+  return layer;
+}
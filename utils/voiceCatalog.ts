@@ -0,0 +1,77 @@
+/**
+ * The Gemini prebuilt voices with short descriptions of how they sound, so a
+ * voice can be chosen without auditioning all thirty. Descriptors follow
+ * Google's own one-word characterizations; pitch and uses are our guidance.
+ */
+
+export type VoicePitch = 'low' | 'mid' | 'high';
+
+export interface VoiceInfo {
+  name: string;
+  /** One-word character, as Google describes the voice. */
+  character: string;
+  pitch: VoicePitch;
+  /** What the voice suits best. */
+  uses: string[];
+}
+
+export const VOICE_CATALOG = [
+  { name: 'Kore', character: 'Firm', pitch: 'mid', uses: ['narration', 'instructions', 'audiobooks'] },
+  { name: 'Puck', character: 'Upbeat', pitch: 'mid', uses: ["children's stories", 'comedy', 'ads'] },
+  { name: 'Charon', character: 'Informative', pitch: 'low', uses: ['documentary', 'news', 'explainers'] },
+  { name: 'Fenrir', character: 'Excitable', pitch: 'low', uses: ['action', 'sports', 'trailers'] },
+  { name: 'Zephyr', character: 'Bright', pitch: 'high', uses: ["children's stories", 'ads', 'announcements'] },
+  { name: 'Leda', character: 'Youthful', pitch: 'high', uses: ['young characters', 'dialogue', 'YA fiction'] },
+  { name: 'Orus', character: 'Firm', pitch: 'low', uses: ['narration', 'corporate', 'authority figures'] },
+  { name: 'Aoede', character: 'Breezy', pitch: 'mid', uses: ['podcasts', 'lifestyle', 'light fiction'] },
+  { name: 'Callirrhoe', character: 'Easy-going', pitch: 'mid', uses: ['conversation', 'podcasts', 'dialogue'] },
+  { name: 'Autonoe', character: 'Bright', pitch: 'mid', uses: ['explainers', 'e-learning', 'ads'] },
+  { name: 'Enceladus', character: 'Breathy', pitch: 'low', uses: ['intimate scenes', 'meditation', 'suspense'] },
+  { name: 'Iapetus', character: 'Clear', pitch: 'low', uses: ['instructions', 'e-learning', 'narration'] },
+  { name: 'Umbriel', character: 'Easy-going', pitch: 'low', uses: ['conversation', 'podcasts', 'storytelling'] },
+  { name: 'Algieba', character: 'Smooth', pitch: 'low', uses: ['audiobooks', 'romance', 'late-night radio'] },
+  { name: 'Despina', character: 'Smooth', pitch: 'mid', uses: ['audiobooks', 'ads', 'guided tours'] },
+  { name: 'Erinome', character: 'Clear', pitch: 'mid', uses: ['e-learning', 'announcements', 'news'] },
+  { name: 'Algenib', character: 'Gravelly', pitch: 'low', uses: ['villains', 'noir', 'old characters'] },
+  { name: 'Rasalgethi', character: 'Informative', pitch: 'mid', uses: ['documentary', 'explainers', 'news'] },
+  { name: 'Laomedeia', character: 'Upbeat', pitch: 'high', uses: ['ads', "children's stories", 'podcasts'] },
+  { name: 'Achernar', character: 'Soft', pitch: 'high', uses: ['bedtime stories', 'meditation', 'poetry'] },
+  { name: 'Alnilam', character: 'Firm', pitch: 'low', uses: ['announcements', 'trailers', 'authority figures'] },
+  { name: 'Schedar', character: 'Even', pitch: 'low', uses: ['long-form narration', 'audiobooks', 'e-learning'] },
+  { name: 'Gacrux', character: 'Mature', pitch: 'mid', uses: ['older characters', 'memoir', 'drama'] },
+  { name: 'Pulcherrima', character: 'Forward', pitch: 'mid', uses: ['ads', 'presentations', 'sales'] },
+  { name: 'Achird', character: 'Friendly', pitch: 'low', uses: ['conversation', 'customer service', 'podcasts'] },
+  { name: 'Zubenelgenubi', character: 'Casual', pitch: 'low', uses: ['dialogue', 'vlogs', 'podcasts'] },
+  { name: 'Vindemiatrix', character: 'Gentle', pitch: 'mid', uses: ['bedtime stories', 'meditation', 'poetry'] },
+  { name: 'Sadachbia', character: 'Lively', pitch: 'low', uses: ['comedy', 'sports', 'dialogue'] },
+  { name: 'Sadaltager', character: 'Knowledgeable', pitch: 'mid', uses: ['documentary', 'lectures', 'explainers'] },
+  { name: 'Sulafat', character: 'Warm', pitch: 'mid', uses: ['storytelling', 'audiobooks', 'bedtime stories'] },
+] as const satisfies readonly VoiceInfo[];
+
+export type VoiceName = typeof VOICE_CATALOG[number]['name'];
+
+/** All prebuilt voice names, in catalog order. */
+export const VOICE_NAMES: VoiceName[] = VOICE_CATALOG.map(voice => voice.name);
+
+export const DEFAULT_VOICE: VoiceName = 'Kore';
+
+export function isVoiceName(value: string): value is VoiceName {
+  return (VOICE_NAMES as string[]).includes(value);
+}
+
+export function getVoiceInfo(name: VoiceName): VoiceInfo {
+  return VOICE_CATALOG.find(voice => voice.name === name)!;
+}
+
+/**
+ * Filters voices by a free-text query matched against name, character, pitch and uses.
+ */
+export function searchVoices(voices: VoiceName[], query: string): VoiceName[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return voices;
+  return voices.filter(name => {
+    const info = getVoiceInfo(name);
+    const haystack = [info.name, info.character, `${info.pitch} pitch`, ...info.uses].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
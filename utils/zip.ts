@@ -0,0 +1,212 @@
+/**
+ * Minimal ZIP archive support.
+ *
+ * Reading is used for client-side document import (EPUB and DOCX are ZIP
+ * containers) and handles stored and deflated entries; deflated data is inflated
+ * with the browser's DecompressionStream. Writing stores entries uncompressed, as
+ * the audio it bundles is already compressed. ZIP64 is not supported either way.
+ */
+
+export interface ZipEntry {
+  name: string;
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ZipReader {
+  entries: ZipEntry[];
+  has: (name: string) => boolean;
+  read: (name: string) => Promise<Uint8Array>;
+  readText: (name: string) => Promise<string>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed part of the end of central directory record; a comment of up to 64 KB may follow
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Version 2.0: needed for stored entries and directories
+const ZIP_VERSION = 20;
+// General purpose flag: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+const MAX_ZIP_SIZE = 0xffffffff;
+
+/**
+ * Opens a ZIP archive held in memory.
+ * @throws If the data is not a ZIP archive.
+ */
+export function openZip(data: Uint8Array): ZipReader {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) {
+    throw new Error("The file is not a ZIP archive.");
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error("ZIP64 archives are not supported.");
+  }
+
+  const utf8 = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("The ZIP archive is damaged.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: utf8.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const byName = new Map(entries.map(entry => [entry.name, entry]));
+
+  const read = async (name: string): Promise<Uint8Array> => {
+    const entry = byName.get(name);
+    if (!entry) throw new Error(`"${name}" is missing from the archive.`);
+
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+      throw new Error("The ZIP archive is damaged.");
+    }
+    // The local header's name and extra field lengths can differ from the central directory's
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const compressed = data.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return compressed;
+    if (entry.method === METHOD_DEFLATE) return inflateRaw(compressed);
+    throw new Error(`"${name}" uses an unsupported compression method (${entry.method}).`);
+  };
+
+  return {
+    entries,
+    has: (name) => byName.has(name),
+    read,
+    readText: async (name) => utf8.decode(await read(name)),
+  };
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - EOCD_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_SIZE);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Builds a ZIP archive of the given files (stored, not compressed).
+ * @throws If the archive would need ZIP64 (over 4 GB).
+ */
+export function createZip(files: ZipFile[], modified: Date = new Date()): Blob {
+  const utf8 = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = utf8.encode(file.name);
+    const crc = crc32(file.data);
+    const size = file.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_FILE_HEADER, true);
+    lv.setUint16(4, ZIP_VERSION, true);
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, METHOD_STORED, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    cv.setUint16(4, ZIP_VERSION, true);
+    cv.setUint16(6, ZIP_VERSION, true);
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, METHOD_STORED, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(local, file.data);
+    central.push(entry);
+    offset += local.length + size;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error("The archive is too large (over 4 GB).");
+    }
+  }
+
+  const centralSize = central.reduce((sum, entry) => sum + entry.length, 0);
+  const eocd = new Uint8Array(EOCD_SIZE);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, eocd], { type: "application/zip" });
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 (IEEE 802.3), as used by ZIP. */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
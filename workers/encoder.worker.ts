@@ -0,0 +1,26 @@
+import { EncoderRequest, EncoderResponse } from '../utils/encoders/encoderClient';
+import { encodeFlac } from '../utils/encoders/flac';
+import { encodeMp3 } from '../utils/encoders/mp3';
+
+/**
+ * Encoder worker: receives planar PCM, replies with progress messages and
+ * finally the encoded bytes (transferred, not copied).
+ */
+
+const reply = (message: EncoderResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (e: MessageEvent<EncoderRequest>) => {
+  const request = e.data;
+  const onProgress = (fraction: number) => reply({ type: 'progress', fraction });
+
+  try {
+    const bytes = request.format === 'mp3'
+      ? encodeMp3(request.channels, request.sampleRate, request.options, onProgress)
+      : encodeFlac(request.channels, request.sampleRate, request.options, onProgress);
+    reply({ type: 'done', bytes }, [bytes.buffer]);
+  } catch (err: any) {
+    reply({ type: 'error', message: err?.message || "Encoding failed." });
+  }
+};